@@ -1,27 +1,47 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useId,
+  useCallback,
+} from "react";
 import { createPortal } from "react-dom";
 import {
   ChronoPickProps,
   ChronoPickMode,
   DateRange,
   CalendarView,
+  TimeValue,
 } from "./lib/types/TChronoPick";
-import {
-  DEFAULT_DATE_FORMAT,
-  MONTH_NAMES_FULL,
-  DEFAULT_TIME_FORMAT,
-} from "./lib/utils/constants";
 import { generateDateId, formatDate } from "./lib/utils/dateUtils";
+import { localizeDigits } from "./lib/utils/localeUtils";
 import { useChronoPickCore } from "./lib/hooks/useChronoPickCore";
+import { usePickerPopover } from "./lib/hooks/usePickerPopover";
 import ChronoPickInput from "./ChronoPickInput";
+import ChronoPickFormFields from "./ChronoPickFormFields";
 import ChronoPickHeader from "./ChronoPickHeader";
+import ChronoPickPresets from "./ChronoPickPresets";
+import ChronoPickDateList from "./ChronoPickDateList";
 import DayView from "./views/DayView";
 import MonthView from "./views/MonthView";
 import YearView from "./views/YearView";
+import QuarterView from "./views/QuarterView";
 import TimePicker from "./TimePicker";
 import style from "./styles/global.module.css";
 import { cn } from "./lib/utils/cn";
 
+/**
+ * Gets the enabled, focusable controls within an element, in DOM order
+ * (for Tab navigation through custom header and footer content).
+ * @param container The element to search.
+ */
+const getFocusableElements = (container: HTMLElement): HTMLElement[] =>
+  Array.from(
+    container.querySelectorAll<HTMLElement>(
+      'button:not([disabled]), input:not([disabled]), select:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])'
+    )
+  );
+
 /**
  * ChronoPick component - A modern React date and time picker.
  *
@@ -37,37 +57,32 @@ import { cn } from "./lib/utils/cn";
 const ChronoPick: React.FC<ChronoPickProps> = (props) => {
   const {
     mode = ChronoPickMode.Single,
-    dateFormat = DEFAULT_DATE_FORMAT,
     inline = false,
     placeholder = "Select Date",
     enableTime = false,
-    minDate,
-    maxDate,
     className,
-    disabledDates,
-    value, // value and onChange are passed to useChronoPickCore
+    editable = false,
+    clearable = false,
+    confirmMode = false,
+    locale,
+    showWeekNumbers = false,
+    numberOfMonths = 1,
+    presets,
+    renderDay,
+    renderHeader,
+    renderFooter,
+    open,
+    defaultOpen,
+    onOpenChange,
+    placement,
+    offset,
+    showArrow = false,
+    name,
+    required = false,
+    form,
   } = props;
 
-  /** State: The DOM element where the portal content (picker UI) will be rendered. Null if inline. */
-  const [portalContainer, setPortalContainer] = useState<HTMLElement | null>(
-    null
-  );
-
-  // --- Animation-related state ---
-  /** State: Represents the logical intent for the picker to be open or closed. Controls animations. */
-  const [logicalPickerOpen, setLogicalPickerOpen] = useState(inline); // Inline pickers are always "logically open"
-  /** State: Controls whether the picker content JSX is actually rendered. Remains true during closing animation. */
-  const [shouldRenderPicker, setShouldRenderPicker] = useState(inline);
-  /** State: Holds dynamic Tailwind CSS classes for opacity and scale to drive open/close animations. */
-  const [animationClasses, setAnimationClasses] = useState(
-    inline ? "opacity-100 scale-100" : "opacity-0 scale-95"
-  );
-
   // --- Refs for DOM elements and focus management ---
-  /** Ref to the main input element. */
-  const inputRef = useRef<HTMLInputElement>(null);
-  /** Ref to the main div of the picker content (the popover). */
-  const pickerRef = useRef<HTMLDivElement>(null);
   /** Ref to the container of the current calendar grid (DayView, MonthView, or YearView). */
   const gridContainerRef = useRef<HTMLDivElement>(null);
   /** Ref to a visually hidden span used for announcing focused date changes to screen readers (via aria-live). */
@@ -82,8 +97,14 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
   const yearBtnRef = useRef<HTMLButtonElement>(null);
   const nextMonthBtnRef = useRef<HTMLButtonElement>(null);
   const nextYearBtnRef = useRef<HTMLButtonElement>(null);
-  const hourSelectRef = useRef<HTMLSelectElement>(null);
-  const minuteSelectRef = useRef<HTMLSelectElement>(null);
+  const timePickerRef = useRef<HTMLDivElement>(null);
+  /** Ref to the presets sidebar, whose buttons take part in Tab navigation. */
+  const presetsRef = useRef<HTMLDivElement>(null);
+  /** Refs to the custom header (`renderHeader`) and footer (`renderFooter`), whose controls take part in Tab navigation. */
+  const customHeaderRef = useRef<HTMLDivElement>(null);
+  const footerRef = useRef<HTMLDivElement>(null);
+  /** Whether the presets sidebar is shown next to the calendar. */
+  const hasPresets = !!presets && presets.length > 0;
   /** State: The ID of the currently focused descendant element within the grid (for `aria-activedescendant`). */
   const [activeDescendantId, setActiveDescendantId] = useState<
     string | undefined
@@ -91,47 +112,43 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
   /** State: Text representation of the current year range (e.g., "2020 - 2031") for Years view display. */
   const [yearRangeText, setYearRangeText] = useState("");
 
-  /** The effective date format string, including time if `enableTime` is true. */
-  const effectiveDateFormat = enableTime
-    ? `${dateFormat} ${DEFAULT_TIME_FORMAT}`
-    : dateFormat;
-
-  /** Opens the picker with animation. Sets state to render the picker and applies animation classes. */
-  const openPickerWithAnimation = useCallback(() => {
-    if (inline) return; // Inline pickers don't open/close via animation
-    setShouldRenderPicker(true); // Ensure picker is in DOM for animation
-    setLogicalPickerOpen(true);
-    // Start animation from closed state (invisible, slightly scaled down)
-    setAnimationClasses("opacity-0 scale-95");
-    requestAnimationFrame(() => {
-      // Transition to open state (fully visible, normal scale)
-      setAnimationClasses("opacity-100 scale-100");
-    });
-  }, [inline]);
-
-  /** Closes the picker with animation. Applies animation classes to transition to closed state. */
-  const closePickerWithAnimation = useCallback(() => {
-    if (inline) return;
-    setLogicalPickerOpen(false);
-    // Start transition to closed state
-    setAnimationClasses("opacity-0 scale-95");
-  }, [inline]);
+  /** Portal, animated open/close state and positioning of the picker relative to the input. */
+  const {
+    inputRef,
+    pickerRef,
+    arrowRef,
+    portalContainer,
+    logicalPickerOpen,
+    shouldRenderPicker,
+    animationClasses,
+    openPickerWithAnimation,
+    closePickerWithAnimation,
+    handleVisibilityChange,
+    updatePosition,
+  } = usePickerPopover({
+    inline,
+    containerClassName: style.chronopickContainer,
+    onOpened: () => focusGrid(),
+    open,
+    defaultOpen,
+    onOpenChange,
+    placement,
+    offset,
+  });
 
   /**
-   * Callback passed to `useChronoPickCore` to handle visibility changes triggered by core logic
-   * (e.g., after selecting a date when not `enableTime`).
+   * Focuses the grid container, if not already focused.
+   * An editable input keeps focus so the user can continue typing.
    */
-  const handleVisibilityChange = useCallback(
-    (visible: boolean) => {
-      if (inline) return;
-      if (visible) {
-        openPickerWithAnimation();
-      } else {
-        closePickerWithAnimation();
-      }
-    },
-    [inline, openPickerWithAnimation, closePickerWithAnimation]
-  );
+  const focusGrid = () => {
+    if (
+      gridContainerRef.current &&
+      document.activeElement !== gridContainerRef.current &&
+      !(editable && document.activeElement === inputRef.current)
+    ) {
+      gridContainerRef.current.focus({ preventScroll: true });
+    }
+  };
 
   /** Core logic hook, provides state and handlers for calendar functionality. */
   const core = useChronoPickCore({
@@ -139,52 +156,29 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
     onVisibilityChange: handleVisibilityChange,
     isPickerVisible: logicalPickerOpen,
   });
-
-  /**
-   * Effect to manage the creation and destruction of the portal container DOM element.
-   * Runs when `inline` prop changes or on component mount/unmount.
-   * If not inline, creates a div in `document.body` for the picker.
-   * Cleans up by removing the div.
-   */
-  useEffect(() => {
-    if (inline) {
-      // If inline, ensure no portal container exists
-      if (portalContainer && document.body.contains(portalContainer)) {
-        document.body.removeChild(portalContainer);
-      }
-      setPortalContainer(null);
-      return;
-    }
-    // Create portal container for non-inline picker
-    const container = document.createElement("div");
-    container.classList.add(style.chronopickContainer);
-    container.style.visibility = "hidden"; // Initially hidden until positioned
-    document.body.appendChild(container);
-    setPortalContainer(container); // Store ref to the portal host
-
-    return () => {
-      // Cleanup on unmount or if `inline` becomes true
-      if (document.body.contains(container)) {
-        document.body.removeChild(container);
-      }
-      // Clear portalContainer state if this effect instance was responsible for the current container
-      setPortalContainer((current) => (current === container ? null : current));
-    };
-  }, [inline]); // Only depends on `inline` prop
-
-  /**
-   * Effect to finalize the closing animation by setting `shouldRenderPicker` to `false`.
-   * This removes the picker content from the DOM after the CSS transition completes.
-   */
-  useEffect(() => {
-    // If picker is logically closed and animation classes indicate it's in the process of closing
-    if (!logicalPickerOpen && animationClasses.includes("opacity-0")) {
-      const timer = setTimeout(() => {
-        setShouldRenderPicker(false); // Remove from DOM after transition
-      }, 150); // Duration must match CSS transition-duration (150ms)
-      return () => clearTimeout(timer); // Cleanup timeout if effect re-runs or unmounts
-    }
-  }, [logicalPickerOpen, animationClasses]);
+  /** The value and date constraints as wall-clock dates in the `timeZone` the calendar is rendered in. */
+  const { selectedValue: value, minDate, maxDate, disabledDates } = core;
+
+  /** The dates whose times the start and end time pickers edit. */
+  const startTimeDate =
+    value instanceof Date
+      ? value
+      : mode === ChronoPickMode.Range
+        ? ((value as DateRange | null)?.from ?? null)
+        : null;
+  const endTimeDate =
+    mode === ChronoPickMode.Range
+      ? ((value as DateRange | null)?.to ?? null)
+      : null;
+  // Stable per date, so the time pickers only recompute their disabled options when the date or constraints change
+  const isStartTimeDisabled = useCallback(
+    (time: TimeValue) => core.isTimeDisabled(time, startTimeDate),
+    [core.isTimeDisabled, startTimeDate]
+  );
+  const isEndTimeDisabled = useCallback(
+    (time: TimeValue) => core.isTimeDisabled(time, endTimeDate),
+    [core.isTimeDisabled, endTimeDate]
+  );
 
   /**
    * Effect to update `activeDescendantId` for ARIA accessibility when `core.focusedDate` or `core.currentView` changes.
@@ -198,124 +192,36 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
       if (focusedDescendantTextRef.current) {
         let text = "";
         if (core.currentView === CalendarView.Days)
-          text = formatDate(core.focusedDate, "Day, Month DD, YYYY");
+          text = formatDate(core.focusedDate, "Day, Month DD, YYYY", false, {
+            locale,
+          });
         else if (core.currentView === CalendarView.Months)
-          text = MONTH_NAMES_FULL[core.focusedDate.getMonth()];
+          text = formatDate(core.focusedDate, "MMMM", false, { locale });
+        else if (core.currentView === CalendarView.Quarters)
+          text = formatDate(core.focusedDate, "[Q]Q YYYY", false, {
+            locale,
+            fiscalYearStartMonth: core.fiscalYearStartMonth,
+          });
         else if (core.currentView === CalendarView.Years)
-          text = String(core.focusedDate.getFullYear());
+          text = formatDate(core.focusedDate, "YYYY", false, { locale });
         focusedDescendantTextRef.current.textContent = text
           ? `Focused on ${text}`
           : "";
       }
     }
-  }, [core.focusedDate, core.currentView]);
+  }, [core.focusedDate, core.currentView, core.fiscalYearStartMonth, locale]);
 
   /**
-   * Effect to manage the positioning and visibility of the portal, and event listeners for outside interactions.
-   * Runs when the picker's open state, inline status, or portal container changes.
-   * Handles positioning the picker relative to the input, click/focus outside detection, and scroll/resize updates.
+   * Effect to reposition the open picker and refocus its grid when its content changes size,
+   * i.e. when switching between calendar views or toggling the time picker.
    */
   useEffect(() => {
-    // If inline, or no portal, or picker shouldn't be rendered, ensure portal is hidden and exit.
-    if (inline || !portalContainer || !shouldRenderPicker) {
-      if (portalContainer && !shouldRenderPicker) {
-        // Ensure portal is hidden if picker is not rendered
-        portalContainer.style.visibility = "hidden";
-      }
-      return;
-    }
-
-    // Handles clicks or focus shifts outside the input and picker, to close the picker.
-    const handleInteractionOutside = (event: MouseEvent | FocusEvent) => {
-      const target = event.target as Node;
-      if (inputRef.current?.contains(target)) return; // Click/focus on input
-      if (pickerRef.current?.contains(target)) return; // Click/focus inside picker
-      closePickerWithAnimation(); // Close if outside
-    };
-
-    // Dynamically positions the portal container relative to the input field.
-    const positionPortal = () => {
-      if (!inputRef.current || !pickerRef.current || !portalContainer) return;
-      const inputRect = inputRef.current.getBoundingClientRect();
-      const pickerHeight = pickerRef.current.offsetHeight;
-      const pickerWidth = pickerRef.current.offsetWidth;
-      const spaceBelow = window.innerHeight - inputRect.bottom;
-      const spaceAbove = inputRect.top;
-
-      // Prefer below, but flip above if not enough space below (or if more space above)
-      let top =
-        spaceBelow >= pickerHeight || spaceBelow >= spaceAbove
-          ? inputRect.bottom + window.scrollY + 2 // Position below input
-          : inputRect.top + window.scrollY - pickerHeight - 2; // Position above input
-
-      // Adjust horizontal position to stay within viewport
-      let left = inputRect.left + window.scrollX;
-      if (left + pickerWidth > window.innerWidth - 2)
-        left = window.innerWidth - pickerWidth - 2; // Prevent right overflow
-      if (left < 2) left = 2; // Prevent left overflow
-
-      // Ensure picker doesn't go off-screen vertically after flipping
-      if (top < 2 + window.scrollY) top = 2 + window.scrollY;
-      if (top + pickerHeight > window.innerHeight + window.scrollY - 2) {
-        top = window.innerHeight + window.scrollY - pickerHeight - 2;
-        if (top < 2 + window.scrollY) top = 2 + window.scrollY; // Re-check after adjustment
-      }
-
-      portalContainer.style.top = `${Math.max(window.scrollY + 2, top)}px`;
-      portalContainer.style.left = `${Math.max(window.scrollX + 2, left)}px`;
-      portalContainer.style.visibility = "visible"; // Make portal visible after positioning
-    };
-
-    if (logicalPickerOpen) {
-      // Only set up if picker is intended to be open
-      // Position portal and focus grid on next animation frame to ensure DOM is ready
-      requestAnimationFrame(() => {
-        if (pickerRef.current && portalContainer) {
-          positionPortal();
-          // Focus the grid container when picker opens, if not already focused
-          if (
-            gridContainerRef.current &&
-            document.activeElement !== gridContainerRef.current
-          ) {
-            gridContainerRef.current?.focus({ preventScroll: true });
-          }
-        }
-      });
-      // Add event listeners for outside interaction and repositioning
-      document.addEventListener(
-        "mousedown",
-        handleInteractionOutside as EventListener
-      );
-      document.addEventListener(
-        "focusin",
-        handleInteractionOutside as EventListener
-      );
-      window.addEventListener("scroll", positionPortal, true); // Use capture phase for scroll
-      window.addEventListener("resize", positionPortal);
-
-      // Cleanup event listeners
-      return () => {
-        document.removeEventListener(
-          "mousedown",
-          handleInteractionOutside as EventListener
-        );
-        document.removeEventListener(
-          "focusin",
-          handleInteractionOutside as EventListener
-        );
-        window.removeEventListener("scroll", positionPortal, true);
-        window.removeEventListener("resize", positionPortal);
-      };
-    }
-  }, [
-    logicalPickerOpen,
-    inline,
-    portalContainer,
-    core.currentView,
-    enableTime,
-    closePickerWithAnimation,
-    shouldRenderPicker,
-  ]);
+    if (inline || !logicalPickerOpen) return;
+    requestAnimationFrame(() => {
+      updatePosition();
+      focusGrid();
+    });
+  }, [core.currentView, enableTime]);
 
   /**
    * Effect to update the `yearRangeText` for display in Years view header and for ARIA live region.
@@ -324,21 +230,71 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
     if (core.currentView === CalendarView.Years) {
       const firstYear = core.yearsToRender[0];
       const lastYear = core.yearsToRender[core.yearsToRender.length - 1];
-      const newRangeText = `${firstYear} - ${lastYear}`;
+      const newRangeText = localizeDigits(
+        `${firstYear} - ${lastYear}`,
+        core.localeData
+      );
       setYearRangeText(newRangeText);
       // Update ARIA live region for screen readers
       if (yearRangeLiveRegionRef.current) {
         yearRangeLiveRegionRef.current.textContent = `Displaying years ${newRangeText}`;
       }
     }
-  }, [core.currentView, core.yearsToRender]);
+  }, [core.currentView, core.yearsToRender, core.localeData]);
 
   // Unique IDs for ARIA labelling and control
   const pickerId = "chronopick-dialog";
   const pickerLabelId = "chronopick-label";
+  /** ID of the error message, unique per picker since `aria-describedby` must point at this picker's error. */
+  const errorId = `chronopick-error-${useId()}`;
 
-  /** Handles keydown events on the input field (e.g., Enter/Space/ArrowDown to open, Escape to close). */
+  /** State: Whether the user has interacted with the picker, after which a missing selection is shown as an error. */
+  const [isTouched, setIsTouched] = useState(false);
+
+  // The picker counts as touched once it closes after being opened
+  useEffect(() => {
+    if (!logicalPickerOpen && shouldRenderPicker) setIsTouched(true);
+  }, [logicalPickerOpen]);
+
+  /**
+   * The validation error shown below the input. A missing selection (`required`) is only shown
+   * once the picker was touched or the form was submitted, not on a pristine picker.
+   */
+  const shownError =
+    core.validationError &&
+    (core.validationError.code !== "required" || isTouched)
+      ? core.validationError
+      : null;
+
+  /**
+   * Handles keydown events on the input field (e.g., Enter/Space/ArrowDown to open, Escape to close).
+   * In an editable input, Enter commits the typed text (handled by `ChronoPickInput`) and closes the picker,
+   * Space types normally, and ArrowDown moves focus into the calendar grid.
+   */
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Delete/Backspace clear the selection (an editable input edits its text instead)
+    if (
+      (e.key === "Delete" || e.key === "Backspace") &&
+      clearable &&
+      !editable
+    ) {
+      e.preventDefault();
+      core.handleClear();
+      return;
+    }
+    if (editable) {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        if (logicalPickerOpen) closePickerWithAnimation();
+        return;
+      }
+      if (e.key === "ArrowDown" && logicalPickerOpen) {
+        e.preventDefault();
+        gridContainerRef.current?.focus({ preventScroll: true });
+        return;
+      }
+      if (e.key === " ") return;
+    }
     if (
       (e.key === "Enter" || e.key === " " || e.key === "ArrowDown") &&
       !inline &&
@@ -366,17 +322,35 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
     // Implement focus trapping within the picker using Tab key
     if (e.key === "Tab" && pickerRef.current && !inline) {
       const focusableElements: HTMLElement[] = [];
+      // Enabled preset buttons come first, matching their position left of (or above) the calendar
+      if (presetsRef.current)
+        focusableElements.push(
+          ...Array.from(
+            presetsRef.current.querySelectorAll<HTMLButtonElement>(
+              "button:not([disabled])"
+            )
+          )
+        );
       // Collect all focusable elements in the picker header and content
+      if (customHeaderRef.current)
+        focusableElements.push(
+          ...getFocusableElements(customHeaderRef.current)
+        );
       if (prevYearBtnRef.current && core.currentView === CalendarView.Days)
         focusableElements.push(prevYearBtnRef.current);
       if (prevMonthBtnRef.current)
         focusableElements.push(prevMonthBtnRef.current);
-      if (monthBtnRef.current && core.currentView === CalendarView.Days)
+      if (
+        monthBtnRef.current &&
+        (core.currentView === CalendarView.Days ||
+          core.currentView === CalendarView.Months)
+      )
         focusableElements.push(monthBtnRef.current);
       if (
         yearBtnRef.current &&
         (core.currentView === CalendarView.Days ||
-          core.currentView === CalendarView.Months)
+          core.currentView === CalendarView.Months ||
+          core.currentView === CalendarView.Quarters)
       )
         focusableElements.push(yearBtnRef.current);
       if (nextMonthBtnRef.current)
@@ -385,10 +359,16 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
         focusableElements.push(nextYearBtnRef.current);
       if (gridContainerRef.current)
         focusableElements.push(gridContainerRef.current);
-      if (enableTime && hourSelectRef.current)
-        focusableElements.push(hourSelectRef.current);
-      if (enableTime && minuteSelectRef.current)
-        focusableElements.push(minuteSelectRef.current);
+      if (enableTime && timePickerRef.current)
+        focusableElements.push(
+          ...Array.from(
+            timePickerRef.current.querySelectorAll<HTMLElement>(
+              "select, button"
+            )
+          )
+        );
+      if (footerRef.current)
+        focusableElements.push(...getFocusableElements(footerRef.current));
 
       const activeElement = document.activeElement;
       let currentIndex = focusableElements.findIndex(
@@ -422,6 +402,30 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
     }
   };
 
+  /**
+   * Renders a built-in footer action ("Clear", or "Today", "Cancel" and "Apply" in `confirmMode`).
+   * @param label - The text of the button.
+   * @param onAction - Called when the button is clicked.
+   * @param className - Additional class name, e.g. for the primary "Apply" action.
+   */
+  const renderFooterButton = (
+    label: string,
+    onAction: () => void,
+    className?: string
+  ) => (
+    <button
+      type="button"
+      className={cn(style.chronopickFooterButton, className)}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onAction();
+      }}
+    >
+      {label}
+    </button>
+  );
+
   /** JSX for the picker's content (header, calendar views, time picker). */
   const pickerContent = (
     <div
@@ -430,16 +434,27 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
       role="dialog"
       aria-modal={!inline} // True if not inline, indicating it traps focus
       aria-labelledby={pickerLabelId} // Associates with the hidden h2 label
+      aria-describedby={inline && shownError ? errorId : undefined} // The error of an inline picker, which has no input
       // Apply base animation class and dynamic animation state classes
       // className={`bg-white dark:bg-slate-800 shadow-2xl rounded-lg p-4 w-[21rem] text-slate-800 dark:text-slate-200 chronopick-picker-content-animated pointer-events-auto ${animationClasses} ${
       //   inline ? "relative" : ""
       // }`}
       className={cn(style.chronopickPickerContent, animationClasses, {
-        "relative": inline
+        "relative": inline || showArrow,
+        [style.chronopickPickerContentAuto]:
+          showWeekNumbers || numberOfMonths > 1 || hasPresets,
       })}
       onClick={(e) => e.stopPropagation()} // Prevent clicks inside picker from closing it (if click outside logic is general)
       onKeyDown={handlePickerContainerKeyDown} // Handle Escape and Tab within picker
     >
+      {/* Arrow pointing at the input, moved along the picker's edge by `usePickerPopover` */}
+      {showArrow && !inline && (
+        <div
+          ref={arrowRef}
+          className={style.chronopickArrow}
+          aria-hidden="true"
+        />
+      )}
       {/* Hidden label for the dialog, for accessibility */}
       <h2 id={pickerLabelId} className="sr-only">
         Calendar
@@ -458,96 +473,244 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
         aria-atomic="true"
       ></span>
 
-      <ChronoPickHeader
-        currentView={core.currentView}
-        currentMonthDate={core.currentMonthDate}
-        yearsToRender={core.yearsToRender}
-        setCurrentView={core.setCurrentView}
-        handleMonthChange={core.handleMonthChange}
-        handleYearChange={core.handleYearChange}
-        prevYearBtnRef={prevYearBtnRef}
-        prevMonthBtnRef={prevMonthBtnRef}
-        monthBtnRef={monthBtnRef}
-        yearBtnRef={yearBtnRef}
-        nextMonthBtnRef={nextMonthBtnRef}
-        nextYearBtnRef={nextYearBtnRef}
-        yearRangeText={yearRangeText}
-        gridContainerRef={gridContainerRef}
-      />
-
-      {/* Container for the calendar grid (Days, Months, or Years view) */}
       <div
-        ref={gridContainerRef}
-        tabIndex={inline ? -1 : 0} // Focusable if not inline, to receive keyboard events
-        role="grid"
-        aria-activedescendant={activeDescendantId} // Manages virtual focus within the grid
-        // Dynamic ARIA label for the grid based on current view and displayed date/year range
-        aria-labelledby={`${pickerLabelId} ${
-          core.currentView === CalendarView.Days
-            ? `${
-                MONTH_NAMES_FULL[core.currentMonthDate.getMonth()]
-              } ${core.currentMonthDate.getFullYear()}`
-            : core.currentView === CalendarView.Months
-              ? String(core.currentMonthDate.getFullYear())
-              : yearRangeText
-        }`}
-        onKeyDown={handleGridKeyDown} // Handle arrow key navigation etc. within the grid
-        className="outline-none rounded" // Basic styling, focus outline handled by cells
+        className={cn({ [style.chronopickPickerLayout]: hasPresets })}
       >
-        {core.currentView === CalendarView.Days && (
-          <DayView
-            daysToRender={core.daysToRender}
-            firstDayOffset={core.firstDayOffset}
-            focusedDate={core.focusedDate}
-            handleDayClick={core.handleDayClick}
-            setTempRangeEnd={core.setTempRangeEnd}
-            tempRangeEnd={core.tempRangeEnd}
-            setFocusedDate={core.setFocusedDate}
-            value={props.value} // Pass original value prop for state checking
-            mode={mode}
-            minDate={minDate}
-            maxDate={maxDate}
-            disabledDates={disabledDates}
-          />
-        )}
-        {core.currentView === CalendarView.Months && (
-          <MonthView
-            monthsToRender={core.monthsToRender}
-            focusedDate={core.focusedDate}
-            currentMonthDate={core.currentMonthDate}
-            handleMonthSelect={core.handleMonthSelect}
-            setFocusedDate={core.setFocusedDate}
-            value={props.value}
-            minDate={minDate}
-            maxDate={maxDate}
-          />
-        )}
-        {core.currentView === CalendarView.Years && (
-          <YearView
-            yearsToRender={core.yearsToRender}
-            focusedDate={core.focusedDate}
-            handleYearSelect={core.handleYearSelect}
-            setFocusedDate={core.setFocusedDate}
-            value={props.value}
-            minDate={minDate}
-            maxDate={maxDate}
+        {hasPresets && (
+          <ChronoPickPresets
+            presetItems={core.presetItems}
+            handlePresetSelect={core.handlePresetSelect}
+            presetsRef={presetsRef}
           />
         )}
+        <div className={cn({ [style.chronopickPickerMain]: hasPresets })}>
+          {renderHeader ? (
+            <div ref={customHeaderRef}>{renderHeader(core)}</div>
+          ) : (
+            <ChronoPickHeader
+              currentView={core.currentView}
+              currentMonthDate={core.currentMonthDate}
+              yearsToRender={core.yearsToRender}
+              setCurrentView={core.setCurrentView}
+              handleYearChange={core.handleYearChange}
+              navigatePeriod={core.navigatePeriod}
+              getPeriodNavigationLabel={core.getPeriodNavigationLabel}
+              prevYearBtnRef={prevYearBtnRef}
+              prevMonthBtnRef={prevMonthBtnRef}
+              monthBtnRef={monthBtnRef}
+              yearBtnRef={yearBtnRef}
+              nextMonthBtnRef={nextMonthBtnRef}
+              nextYearBtnRef={nextYearBtnRef}
+              yearRangeText={yearRangeText}
+              gridContainerRef={gridContainerRef}
+              locale={locale}
+              fiscalYearStartMonth={core.fiscalYearStartMonth}
+            />
+          )}
+
+          {/* Container for the calendar grid (Days, Months, or Years view) */}
+          <div
+            ref={gridContainerRef}
+            tabIndex={inline ? -1 : 0} // Focusable if not inline, to receive keyboard events
+            role="grid"
+            aria-activedescendant={activeDescendantId} // Manages virtual focus within the grid
+            // Dynamic ARIA label for the grid based on current view and displayed date/year range
+            aria-labelledby={`${pickerLabelId} ${
+              core.currentView === CalendarView.Days
+                ? formatDate(core.currentMonthDate, "MMMM YYYY", false, { locale })
+                : core.currentView === CalendarView.Months ||
+                    core.currentView === CalendarView.Quarters
+                  ? formatDate(core.currentMonthDate, "YYYY", false, { locale })
+                  : yearRangeText
+            }`}
+            onKeyDown={handleGridKeyDown} // Handle arrow key navigation etc. within the grid
+            className="outline-none rounded" // Basic styling, focus outline handled by cells
+          >
+            {core.currentView === CalendarView.Days && (
+              // One panel per displayed month; side by side, or stacked on narrow screens
+              <div className={style.chronopickMonthPanels}>
+                {core.monthPanels.map((panel) => {
+                  const panelLabel = formatDate(
+                    panel.monthDate,
+                    "MMMM YYYY",
+                    false,
+                    { locale }
+                  );
+                  return (
+                    <div
+                      key={panel.monthDate.getTime()}
+                      role="group"
+                      aria-label={panelLabel}
+                      className={style.chronopickMonthPanel}
+                    >
+                      {numberOfMonths > 1 && (
+                        <div
+                          className={style.chronopickMonthCaption}
+                          aria-hidden="true"
+                        >
+                          {panelLabel}
+                        </div>
+                      )}
+                      <DayView
+                        weeksToRender={panel.weeks}
+                        firstDayOfWeek={core.firstDayOfWeek}
+                        localeData={core.localeData}
+                        handleWeekSelect={core.handleWeekSelect}
+                        showWeekNumbers={showWeekNumbers}
+                        getDayState={core.getDayState}
+                        getDayProps={core.getDayProps}
+                        getDayModifierClassNames={
+                          core.getDayModifierClassNames
+                        }
+                        getDayMeta={core.getDayMeta}
+                        mode={mode}
+                        renderDay={renderDay}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {core.currentView === CalendarView.Months && (
+              <MonthView
+                monthsToRender={core.monthsToRender}
+                focusedDate={core.focusedDate}
+                currentMonthDate={core.currentMonthDate}
+                handleMonthSelect={core.handleMonthSelect}
+                setFocusedDate={core.setFocusedDate}
+                tempRangeEnd={core.tempRangeEnd}
+                setTempRangeEnd={core.setTempRangeEnd}
+                value={value}
+                mode={mode}
+                minDate={minDate}
+                maxDate={maxDate}
+                locale={locale}
+              />
+            )}
+            {core.currentView === CalendarView.Quarters && (
+              <QuarterView
+                quartersToRender={core.quartersToRender}
+                focusedDate={core.focusedDate}
+                handleQuarterSelect={core.handleQuarterSelect}
+                setFocusedDate={core.setFocusedDate}
+                fiscalYearStartMonth={core.fiscalYearStartMonth}
+                today={core.today}
+                value={value}
+                mode={mode}
+                minDate={minDate}
+                maxDate={maxDate}
+                locale={locale}
+              />
+            )}
+            {core.currentView === CalendarView.Years && (
+              <YearView
+                yearsToRender={core.yearsToRender}
+                focusedDate={core.focusedDate}
+                handleYearSelect={core.handleYearSelect}
+                setFocusedDate={core.setFocusedDate}
+                tempRangeEnd={core.tempRangeEnd}
+                setTempRangeEnd={core.setTempRangeEnd}
+                today={core.today}
+                value={value}
+                mode={mode}
+                minDate={minDate}
+                maxDate={maxDate}
+                locale={locale}
+              />
+            )}
+          </div>
+
+          {/* TimePicker, rendered if enableTime is true, in Days view, and a date is selected (single mode) or in range/multiple mode */}
+          {enableTime &&
+            core.currentView === CalendarView.Days &&
+            (value instanceof Date ||
+              mode === ChronoPickMode.Range ||
+              mode === ChronoPickMode.Multiple) && (
+              <div ref={timePickerRef} className={style.chronopickTimePickers}>
+                <TimePicker
+                  label={
+                    mode === ChronoPickMode.Range
+                      ? "Start"
+                      : mode === ChronoPickMode.Multiple
+                        ? "Time for new dates"
+                        : undefined
+                  }
+                  selectedHour={core.selectedHour}
+                  selectedMinute={core.selectedMinute}
+                  selectedSecond={core.selectedSecond}
+                  handleTimeChange={core.handleTimeChange}
+                  hourCycle={core.hourCycle}
+                  showSeconds={core.showSeconds}
+                  minuteStep={core.minuteStep}
+                  secondStep={core.secondStep}
+                  meridiems={core.localeData.meridiems}
+                  isTimeDisabled={isStartTimeDisabled}
+                  hasSecondConstraints={core.hasSecondConstraints}
+                />
+                {/* In range mode, a second TimePicker sets the time of the range's end */}
+                {mode === ChronoPickMode.Range && (
+                  <TimePicker
+                    label="End"
+                    selectedHour={core.selectedEndTime.hours}
+                    selectedMinute={core.selectedEndTime.minutes}
+                    selectedSecond={core.selectedEndTime.seconds}
+                    handleTimeChange={core.handleEndTimeChange}
+                    hourCycle={core.hourCycle}
+                    showSeconds={core.showSeconds}
+                    minuteStep={core.minuteStep}
+                    secondStep={core.secondStep}
+                    meridiems={core.localeData.meridiems}
+                    isTimeDisabled={isEndTimeDisabled}
+                    hasSecondConstraints={core.hasSecondConstraints}
+                  />
+                )}
+                {/* In multiple mode, each selected date has its own time */}
+                {mode === ChronoPickMode.Multiple && (
+                  <ChronoPickDateList
+                    selectedDates={core.selectedDates}
+                    handleDateTimeChange={core.handleDateTimeChange}
+                    handleDateRemove={core.handleDateRemove}
+                    isTimeDisabled={core.isTimeDisabled}
+                    hasSecondConstraints={core.hasSecondConstraints}
+                    hourCycle={core.hourCycle}
+                    showSeconds={core.showSeconds}
+                    minuteStep={core.minuteStep}
+                    secondStep={core.secondStep}
+                    meridiems={core.localeData.meridiems}
+                    locale={locale}
+                  />
+                )}
+              </div>
+            )}
+          {(renderFooter || clearable || confirmMode) && (
+            <div ref={footerRef} className={style.chronopickFooter}>
+              {renderFooter?.(core)}
+              {(clearable || confirmMode) && (
+                <div className={style.chronopickFooterActions}>
+                  {clearable && renderFooterButton("Clear", core.handleClear)}
+                  {confirmMode && (
+                    <>
+                      {renderFooterButton("Today", core.handleTodayClick)}
+                      {renderFooterButton("Cancel", () => {
+                        core.cancelDraft();
+                        if (!inline) inputRef.current?.focus(); // Return focus to input field
+                      })}
+                      {renderFooterButton(
+                        "Apply",
+                        () => {
+                          core.applyDraft();
+                          if (!inline) inputRef.current?.focus();
+                        },
+                        style.chronopickFooterButtonPrimary
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
-
-      {/* TimePicker, rendered if enableTime is true, in Days view, and a date is selected/being selected */}
-      {enableTime &&
-        core.currentView === CalendarView.Days &&
-        (value instanceof Date ||
-          (mode === ChronoPickMode.Range && (value as DateRange)?.from)) && ( // Show if single date or range 'from' is picked
-          <TimePicker
-            selectedHour={core.selectedHour}
-            selectedMinute={core.selectedMinute}
-            handleTimeChange={core.handleTimeChange}
-            hourSelectRef={hourSelectRef}
-            minuteSelectRef={minuteSelectRef}
-          />
-        )}
     </div>
   );
   // keyboard focus management
@@ -566,9 +729,34 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
   //   };
   // }, []);
 
+  /** JSX for the hidden form fields, if the picker takes part in a form (`name` or `required`). */
+  const formFields = (name || required) && (
+    <ChronoPickFormFields
+      name={name}
+      form={form}
+      validationMessage={core.validationError?.message ?? ""}
+      value={core.committedValue}
+      mode={core.mode}
+      serializeDate={core.serializeDate}
+      resetValue={core.resetValue}
+      onFocusRequest={() =>
+        (inline ? gridContainerRef : inputRef).current?.focus()
+      }
+      onInvalid={() => setIsTouched(true)}
+    />
+  );
+
   // If inline, render pickerContent directly without portal or input field wrapper
   if (inline) {
-    return pickerContent;
+    return (
+      <>
+        {pickerContent}
+        <div id={errorId} className={style.chronopickError} aria-live="polite">
+          {shownError?.message}
+        </div>
+        {formFields}
+      </>
+    );
   }
 
   // If not inline, render the input field and the pickerContent within a portal (if it should be rendered)
@@ -589,8 +777,17 @@ const ChronoPick: React.FC<ChronoPickProps> = (props) => {
         pickerId={pickerId}
         isPickerOpen={logicalPickerOpen} // Use logical state for ARIA
         inline={inline}
-        effectiveDateFormat={effectiveDateFormat}
+        effectiveDateFormat={core.effectiveDateFormat}
+        editable={editable}
+        onInputChange={core.previewInputValue}
+        onCommit={core.commitInputValue}
+        pickerRef={pickerRef}
+        required={required}
+        errorId={errorId}
+        errorMessage={shownError?.message}
+        onClear={clearable ? core.handleClear : undefined}
       />
+      {formFields}
       {/* Render picker content into the portal container if it should be rendered and portal is ready */}
       {shouldRenderPicker &&
         portalContainer &&
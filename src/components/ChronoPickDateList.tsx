@@ -0,0 +1,132 @@
+import React, { useCallback } from "react";
+import { useChronoPickCore } from "./lib/hooks/useChronoPickCore";
+import { TimeValue } from "./lib/types/TChronoPick";
+import { formatDate } from "./lib/utils/dateUtils";
+import TimePicker from "./TimePicker";
+import style from "./styles/ChronoPickDateList.module.css";
+
+// Infer the return type of useChronoPickCore to get types for its returned state and functions.
+type CoreReturnType = ReturnType<typeof useChronoPickCore>;
+
+/**
+ * Props for the ChronoPickDateList component.
+ */
+interface ChronoPickDateListProps {
+  /** The selected dates in chronological order. */
+  selectedDates: CoreReturnType["selectedDates"];
+  /** Function to change the time of one selected date. */
+  handleDateTimeChange: CoreReturnType["handleDateTimeChange"];
+  /** Function to remove one selected date. */
+  handleDateRemove: CoreReturnType["handleDateRemove"];
+  /** Function to check whether a time of a date cannot be selected. */
+  isTimeDisabled: CoreReturnType["isTimeDisabled"];
+  /** Whether `isTimeDisabled` can allow a later second of a minute but not its first. */
+  hasSecondConstraints: CoreReturnType["hasSecondConstraints"];
+  /** Time picker options, shared with the main time picker. */
+  hourCycle: CoreReturnType["hourCycle"];
+  showSeconds: CoreReturnType["showSeconds"];
+  minuteStep: CoreReturnType["minuteStep"];
+  secondStep: CoreReturnType["secondStep"];
+  meridiems: CoreReturnType["localeData"]["meridiems"];
+  /** Optional locale tag, used for the dates' labels. */
+  locale?: string;
+}
+
+/**
+ * Props for one entry of the ChronoPickDateList: the list's props, for one selected date.
+ */
+interface ChronoPickDateListItemProps
+  extends Omit<ChronoPickDateListProps, "selectedDates"> {
+  /** The selected date of this entry. */
+  date: Date;
+}
+
+/**
+ * One entry of the ChronoPickDateList: a removable chip and the date's time editor.
+ * Its own component, so the time editor gets a stable `isTimeDisabled` per date.
+ */
+const ChronoPickDateListItem: React.FC<ChronoPickDateListItemProps> = ({
+  date,
+  handleDateTimeChange,
+  handleDateRemove,
+  isTimeDisabled,
+  hasSecondConstraints,
+  hourCycle,
+  showSeconds,
+  minuteStep,
+  secondStep,
+  meridiems,
+  locale,
+}) => {
+  const isDateTimeDisabled = useCallback(
+    (time: TimeValue) => isTimeDisabled(time, date),
+    [isTimeDisabled, date]
+  );
+  const dateLabel = formatDate(date, "Day, Month DD, YYYY", false, {
+    locale,
+  });
+
+  return (
+    <li className={style.item}>
+      <span className={style.chip}>
+        {formatDate(date, "ddd, MMM D", false, { locale })}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            handleDateRemove(date);
+          }}
+          className={style.removeButton}
+          aria-label={`Remove ${dateLabel}`}
+        >
+          ×
+        </button>
+      </span>
+      <TimePicker
+        variant="inline"
+        label={`Time for ${dateLabel}`}
+        selectedHour={date.getHours()}
+        selectedMinute={date.getMinutes()}
+        selectedSecond={date.getSeconds()}
+        handleTimeChange={(hour, minute, second) =>
+          handleDateTimeChange(date, hour, minute, second)
+        }
+        hourCycle={hourCycle}
+        showSeconds={showSeconds}
+        minuteStep={minuteStep}
+        secondStep={secondStep}
+        meridiems={meridiems}
+        isTimeDisabled={isDateTimeDisabled}
+        hasSecondConstraints={hasSecondConstraints}
+      />
+    </li>
+  );
+};
+
+/**
+ * ChronoPickDateList component.
+ * Lists the dates selected in `Multiple` mode with time selection, in chronological order.
+ * Each date is shown as a removable chip next to its own time editor, so dates that
+ * differ only by time are separate entries.
+ */
+const ChronoPickDateList: React.FC<ChronoPickDateListProps> = ({
+  selectedDates,
+  ...itemProps
+}) => {
+  if (selectedDates.length === 0) return null;
+
+  return (
+    <ul className={style.list} aria-label="Selected dates">
+      {selectedDates.map((date) => (
+        <ChronoPickDateListItem
+          key={date.getTime()}
+          date={date}
+          {...itemProps}
+        />
+      ))}
+    </ul>
+  );
+};
+
+export default ChronoPickDateList;
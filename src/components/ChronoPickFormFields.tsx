@@ -0,0 +1,113 @@
+import React, { useEffect, useRef } from "react";
+import { DateRange } from "./lib/types/TChronoPick";
+import { useChronoPickCore } from "./lib/hooks/useChronoPickCore";
+import { RANGE_VALUE_MODES } from "./lib/utils/constants";
+import style from "./styles/global.module.css";
+
+// Infer the return type of useChronoPickCore to get types for its returned state and functions.
+type CoreReturnType = ReturnType<typeof useChronoPickCore>;
+
+/**
+ * Props for the ChronoPickFormFields component.
+ */
+interface ChronoPickFormFieldsProps {
+  /** The name of the hidden inputs holding the selected value. No hidden inputs are rendered without it. */
+  name?: string;
+  /** The id of the `<form>` the fields belong to, if the picker is not inside it. */
+  form?: string;
+  /** The validation message of the selected value, empty if it is valid. A message blocks form submission. */
+  validationMessage: string;
+  /** The selected value as wall-clock dates. */
+  value: CoreReturnType["selectedValue"];
+  /** The selection mode, which determines the shape of the value. */
+  mode: CoreReturnType["mode"];
+  /** Converts a selected date to the submitted string. */
+  serializeDate: CoreReturnType["serializeDate"];
+  /** Restores the initial selection when the form is reset. */
+  resetValue: CoreReturnType["resetValue"];
+  /** Moves focus to the picker's input, e.g. when the browser reports the field as invalid on submit. */
+  onFocusRequest: () => void;
+  /** Called when the browser reports the field as invalid, e.g. on an attempt to submit the form. */
+  onInvalid?: () => void;
+}
+
+/**
+ * ChronoPickFormFields component.
+ * Lets the picker take part in a surrounding `<form>`: hidden inputs hold the serialized value
+ * (one per date in `Multiple` mode, `<name>[from]` and `<name>[to]` for ranges), an invisible field
+ * reports validation errors through `setCustomValidity`, and the form's `reset` event restores the initial selection.
+ */
+const ChronoPickFormFields: React.FC<ChronoPickFormFieldsProps> = ({
+  name,
+  form,
+  validationMessage,
+  value,
+  mode,
+  serializeDate,
+  resetValue,
+  onFocusRequest,
+  onInvalid,
+}) => {
+  /** Ref to the invisible field, used for constraint validation and to find the form. */
+  const validationInputRef = useRef<HTMLInputElement>(null);
+  const isRangeValue = RANGE_VALUE_MODES.includes(mode);
+  const range = isRangeValue ? (value as DateRange | null) : null;
+
+  // Report validation errors to the form's constraint validation
+  useEffect(() => {
+    validationInputRef.current?.setCustomValidity(validationMessage);
+  }, [validationMessage]);
+
+  // Restore the initial selection when the form is reset
+  useEffect(() => {
+    const formElement = validationInputRef.current?.form;
+    if (!formElement) return;
+    formElement.addEventListener("reset", resetValue);
+    return () => formElement.removeEventListener("reset", resetValue);
+  }, [form, resetValue]);
+
+  /** Renders a hidden input holding a serialized date, or an empty string if no date is selected. */
+  const renderHiddenInput = (fieldName: string, date: Date | null) => (
+    <input
+      type="hidden"
+      name={fieldName}
+      form={form}
+      value={date ? serializeDate(date) : ""}
+    />
+  );
+
+  return (
+    <>
+      {name &&
+        (isRangeValue ? (
+          <>
+            {renderHiddenInput(`${name}[from]`, range?.from ?? null)}
+            {renderHiddenInput(`${name}[to]`, range?.to ?? null)}
+          </>
+        ) : Array.isArray(value) ? (
+          value.map((date) => (
+            <React.Fragment key={date.getTime()}>
+              {renderHiddenInput(name, date)}
+            </React.Fragment>
+          ))
+        ) : (
+          renderHiddenInput(name, value instanceof Date ? value : null)
+        ))}
+      {/* Hidden and read-only inputs are not validated, so validation uses an invisible text field */}
+      <input
+        ref={validationInputRef}
+        type="text"
+        form={form}
+        value=""
+        onChange={() => {}}
+        onFocus={onFocusRequest}
+        onInvalid={onInvalid}
+        tabIndex={-1}
+        aria-hidden="true"
+        className={style.chronopickValidationInput}
+      />
+    </>
+  );
+};
+
+export default ChronoPickFormFields;
@@ -1,6 +1,10 @@
 import React from "react";
 import { CalendarView } from "./lib/types/TChronoPick";
-import { MONTH_NAMES_FULL, YEARS_PER_VIEW } from "./lib/utils/constants";
+import {
+  addMonths,
+  formatDate,
+  startOfFiscalYear,
+} from "./lib/utils/dateUtils";
 import ChevronLeftIcon from "./icons/ChevronLeftIcon";
 import ChevronRightIcon from "./icons/ChevronRightIcon";
 import ChevronDoubleLeftIcon from "./icons/ChevronDoubleLeftIcon";
@@ -17,7 +21,7 @@ type CoreReturnType = ReturnType<typeof useChronoPickCore>;
  * These props are derived from the state and handlers provided by `useChronoPickCore`.
  */
 interface ChronoPickHeaderProps {
-  /** The current calendar view being displayed (Days, Months, or Years). */
+  /** The current calendar view being displayed (Days, Months, Quarters, or Years). */
   currentView: CoreReturnType["currentView"];
   /** The date that anchors the current calendar view (determines the displayed month and year). */
   currentMonthDate: CoreReturnType["currentMonthDate"];
@@ -28,17 +32,22 @@ interface ChronoPickHeaderProps {
   yearsToRender: CoreReturnType["yearsToRender"];
   /** Function to change the current calendar view (e.g., from Days to Months). */
   setCurrentView: CoreReturnType["setCurrentView"];
-  /** Function to handle changing the displayed month (e.g., by clicking previous/next month arrows). */
-  handleMonthChange: CoreReturnType["handleMonthChange"];
   /** Function to handle changing the displayed year (e.g., by clicking previous/next year arrows). */
   handleYearChange: CoreReturnType["handleYearChange"];
+  /** Moves the displayed period back or forward, per the current view (month(s), year or page of years). */
+  navigatePeriod: CoreReturnType["navigatePeriod"];
+  /** Gets the ARIA label of the previous or next button for the current view. */
+  getPeriodNavigationLabel: CoreReturnType["getPeriodNavigationLabel"];
 
   // Refs to header buttons for programmatic focus management (e.g., after keyboard navigation).
   /** Ref for the "Previous Year" button (double chevron left). */
   prevYearBtnRef: React.RefObject<HTMLButtonElement | null>;
   /** Ref for the "Previous" button (single chevron left - month, year, or block of years). */
   prevMonthBtnRef: React.RefObject<HTMLButtonElement | null>;
-  /** Ref for the button displaying the current month's name (clickable to switch to Months view). */
+  /**
+   * Ref for the button displaying the current month's name (clickable to switch to Months view),
+   * or, in Months view, the current quarter (clickable to switch to Quarters view).
+   */
   monthBtnRef: React.RefObject<HTMLButtonElement | null>;
   /** Ref for the button displaying the current year (clickable to switch to Years view). */
   yearBtnRef: React.RefObject<HTMLButtonElement | null>;
@@ -51,6 +60,10 @@ interface ChronoPickHeaderProps {
   yearRangeText: string;
   /** Ref to the main grid container, used to return focus to the grid after header interactions. */
   gridContainerRef: React.RefObject<HTMLDivElement | null>;
+  /** Optional locale tag used for the month name and year labels. */
+  locale?: string;
+  /** The month in which the fiscal year starts, used for the quarter and fiscal year labels. */
+  fiscalYearStartMonth: CoreReturnType["fiscalYearStartMonth"];
 }
 
 /**
@@ -58,7 +71,7 @@ interface ChronoPickHeaderProps {
  * This component renders the navigation header for the calendar. It includes:
  * - Buttons for navigating to the previous/next month, year, or block of years.
  * - Display of the current month and year (or year range).
- * - Buttons to switch between Days, Months, and Years views.
+ * - Buttons to switch between Days, Months, Quarters, and Years views.
  * It's designed to be used within the main ChronoPick component.
  */
 const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
@@ -66,8 +79,9 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
   currentMonthDate,
   // yearsToRender, // This prop is implicitly used via yearRangeText now.
   setCurrentView,
-  handleMonthChange,
   handleYearChange,
+  navigatePeriod,
+  getPeriodNavigationLabel,
   prevYearBtnRef,
   prevMonthBtnRef,
   monthBtnRef,
@@ -76,80 +90,41 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
   nextYearBtnRef,
   yearRangeText,
   gridContainerRef,
+  locale,
+  fiscalYearStartMonth,
 }) => {
-  /**
-   * Generates a descriptive ARIA label for the "previous" navigation button
-   * based on the current calendar view.
-   * @returns The ARIA label string.
-   */
-  const getPrevNavLabel = () => {
-    switch (currentView) {
-      case CalendarView.Days:
-        return "Previous month";
-      case CalendarView.Months:
-        return "Previous year";
-      case CalendarView.Years:
-        return `Previous ${YEARS_PER_VIEW} years`; // E.g., "Previous 12 years"
-      default:
-        return "Previous";
-    }
-  };
-
-  /**
-   * Generates a descriptive ARIA label for the "next" navigation button
-   * based on the current calendar view.
-   * @returns The ARIA label string.
-   */
-  const getNextNavLabel = () => {
-    switch (currentView) {
-      case CalendarView.Days:
-        return "Next month";
-      case CalendarView.Months:
-        return "Next year";
-      case CalendarView.Years:
-        return `Next ${YEARS_PER_VIEW} years`; // E.g., "Next 12 years"
-      default:
-        return "Next";
-    }
-  };
+  /** Localized name of the displayed month, e.g. "January". */
+  const monthLabel = formatDate(currentMonthDate, "MMMM", false, { locale });
+  /** Localized displayed year, e.g. "2024". */
+  const yearLabel = formatDate(currentMonthDate, "YYYY", false, { locale });
+  /** Localized quarter of the displayed month, e.g. "Q1". */
+  const quarterLabel = formatDate(currentMonthDate, "[Q]Q", false, {
+    locale,
+    fiscalYearStartMonth,
+  });
+  /** Localized displayed fiscal year, e.g. "2024", or "2024 – 2025" if it spans two calendar years. */
+  const fiscalYearStart = startOfFiscalYear(
+    currentMonthDate,
+    fiscalYearStartMonth
+  );
+  const fiscalYearLabel =
+    fiscalYearStartMonth === 0
+      ? formatDate(fiscalYearStart, "YYYY", false, { locale })
+      : `${formatDate(fiscalYearStart, "YYYY", false, { locale })} – ${formatDate(
+          addMonths(fiscalYearStart, 11),
+          "YYYY",
+          false,
+          { locale }
+        )}`;
 
   /**
-   * Handles the click action for the "previous" navigation button (single chevron).
+   * Handles the click action for the "previous" or "next" navigation button (single chevron).
    * The action (change month, year, or block of years) depends on the current view.
    * After navigation, focus is returned to the grid container for keyboard accessibility.
+   * @param direction `-1` for the previous button, `1` for the next button.
    */
-  const handlePrevNav = () => {
-    switch (currentView) {
-      case CalendarView.Days:
-        handleMonthChange(-1);
-        break;
-      case CalendarView.Months:
-        handleYearChange(-1);
-        break;
-      case CalendarView.Years:
-        handleYearChange(-YEARS_PER_VIEW);
-        break;
-    }
-    gridContainerRef.current?.focus(); // Return focus to grid
-  };
-
-  /**
-   * Handles the click action for the "next" navigation button (single chevron).
-   * The action depends on the current view.
-   * Focus is returned to the grid container.
-   */
-  const handleNextNav = () => {
-    switch (currentView) {
-      case CalendarView.Days:
-        handleMonthChange(1);
-        break;
-      case CalendarView.Months:
-        handleYearChange(1);
-        break;
-      case CalendarView.Years:
-        handleYearChange(YEARS_PER_VIEW);
-        break;
-    }
+  const handlePeriodNav = (direction: 1 | -1) => {
+    navigatePeriod(direction);
     gridContainerRef.current?.focus(); // Return focus to grid
   };
 
@@ -179,10 +154,10 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
           onClick={(e) => {
             e.preventDefault();
             e.stopPropagation();
-            handlePrevNav();
+            handlePeriodNav(-1);
           }}
           className={`${style.navButton} ${style.navButtonDark}`}
-          aria-label={getPrevNavLabel()}
+          aria-label={getPeriodNavigationLabel(-1)}
         >
           <ChevronLeftIcon />
         </button>
@@ -201,11 +176,9 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
                 gridContainerRef.current?.focus();
               }}
               className={`${style.labelButton} ${style.labelButtonDark}`}
-              aria-label={`Change to month view. Current month: ${
-                MONTH_NAMES_FULL[currentMonthDate.getMonth()]
-              }`}
+              aria-label={`Change to month view. Current month: ${monthLabel}`}
             >
-              {MONTH_NAMES_FULL[currentMonthDate.getMonth()]}
+              {monthLabel}
             </button>
             <button
               ref={yearBtnRef}
@@ -217,14 +190,47 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
                 gridContainerRef.current?.focus();
               }}
               className={`${style.labelButton} ${style.labelButtonDark}`}
-              aria-label={`Change to year view. Current year: ${currentMonthDate.getFullYear()}`}
+              aria-label={`Change to year view. Current year: ${yearLabel}`}
             >
-              {currentMonthDate.getFullYear()}
+              {yearLabel}
             </button>
           </>
         )}
 
         {currentView === CalendarView.Months && (
+          <>
+            <button
+              ref={monthBtnRef}
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setCurrentView(CalendarView.Quarters);
+                gridContainerRef.current?.focus();
+              }}
+              className={`${style.labelButton} ${style.labelButtonDark}`}
+              aria-label={`Change to quarter view. Current quarter: ${quarterLabel}`}
+            >
+              {quarterLabel}
+            </button>
+            <button
+              ref={yearBtnRef}
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setCurrentView(CalendarView.Years);
+                gridContainerRef.current?.focus();
+              }}
+              className={`${style.labelButton} ${style.labelButtonDark}`}
+              aria-label={`Change to year view. Current year: ${yearLabel}`}
+            >
+              {yearLabel}
+            </button>
+          </>
+        )}
+
+        {currentView === CalendarView.Quarters && (
           <button
             ref={yearBtnRef}
             type="button"
@@ -235,9 +241,9 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
               gridContainerRef.current?.focus();
             }}
             className={`${style.labelButton} ${style.labelButtonDark}`}
-            aria-label={`Change to year view. Current year: ${currentMonthDate.getFullYear()}`}
+            aria-label={`Change to year view. Current fiscal year: ${fiscalYearLabel}`}
           >
-            {currentMonthDate.getFullYear()}
+            {fiscalYearLabel}
           </button>
         )}
 
@@ -258,10 +264,10 @@ const ChronoPickHeader: React.FC<ChronoPickHeaderProps> = ({
           onClick={(e) => {
             e.preventDefault();
             e.stopPropagation();
-            handleNextNav();
+            handlePeriodNav(1);
           }}
           className={`${style.navButton} ${style.navButtonDark}`}
-          aria-label={getNextNavLabel()}
+          aria-label={getPeriodNavigationLabel(1)}
         >
           <ChevronRightIcon />
         </button>
@@ -3,6 +3,7 @@ import CalendarIcon from "./icons/CalendarIcon";
 import styles from "./styles/ChronoPickInput.module.css";
 import { cn } from "./lib/utils/cn";
 import { TInputChangeEvent } from "./lib/types/GlobalType";
+import { describeDateFormat } from "./lib/utils/dateUtils";
 
 interface ChronoPickInputProps {
   value: string;
@@ -16,6 +17,26 @@ interface ChronoPickInputProps {
   effectiveDateFormat: string;
   className?: string;
   onClick?: () => void;
+  /** If true, the input accepts typed text instead of being read-only. */
+  editable?: boolean;
+  /** Called with the current text on every keystroke in an editable input. */
+  onInputChange?: (text: string) => void;
+  /** Called with the current text when an editable input is committed (blur or Enter). */
+  onCommit?: (text: string) => void;
+  /** Ref to the picker; moving focus into it (e.g. with ArrowDown) does not commit an editable input. */
+  pickerRef?: React.RefObject<HTMLElement | null>;
+  /** The decorative icon at the end of the input. Defaults to a calendar icon. */
+  icon?: React.ReactNode;
+  /** Names `effectiveDateFormat` in the input's aria-label. Defaults to "Date format". */
+  formatLabel?: string;
+  /** If true, the input is announced as required. */
+  required?: boolean;
+  /** The id of the error message region below the input, referenced by `aria-describedby` while there is an error. */
+  errorId?: string;
+  /** The validation error message. If set, the input is marked as invalid (`aria-invalid`). */
+  errorMessage?: string;
+  /** Clears the selection. If set, a clear (×) button is shown next to the icon while there is a value. */
+  onClear?: () => void;
 }
 
 const ChronoPickInput: React.FC<ChronoPickInputProps> = ({
@@ -29,18 +50,31 @@ const ChronoPickInput: React.FC<ChronoPickInputProps> = ({
   inline,
   className,
   effectiveDateFormat,
+  editable = false,
+  onInputChange,
+  onCommit,
+  pickerRef,
+  icon,
+  formatLabel = "Date format",
+  required = false,
+  errorId,
+  errorMessage,
+  onClear,
 }) => {
   if (inline) return null;
 
-  const ariaDateFormat = effectiveDateFormat
-    .replace("YYYY", "Year")
-    .replace("MM", "Month")
-    .replace("DD", "Day")
-    .replace("hh", "Hour")
-    .replace("mm", "Minute")
-    .replace("K", "AM/PM");
+  const ariaDateFormat = describeDateFormat(effectiveDateFormat, true);
 
   const [focused, setFocused] = useState(false);
+  /** State: The text currently typed into an editable input, before it is committed. */
+  const [draft, setDraft] = useState(value);
+  /** The last committed text, so a blur right after Enter doesn't commit the same text again. */
+  const lastCommittedRef = useRef<string | null>(null);
+
+  // Keep the draft in sync with the committed value (e.g. after a calendar selection)
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
 
   // Remove focus/blur event listeners to avoid interfering with parent dropdown's outside click logic.
   // Instead, rely on React's onFocus/onBlur and picker open state.
@@ -54,33 +88,88 @@ const ChronoPickInput: React.FC<ChronoPickInputProps> = ({
 
   const handleClick = () => setFocused(true);
 
+  const handleChange = (e: TInputChangeEvent) => {
+    setDraft(e.target.value);
+    lastCommittedRef.current = null;
+    onInputChange?.(e.target.value);
+  };
+
+  /** Commits the typed text, unless the same text was already committed. */
+  const commit = (text: string) => {
+    if (text === lastCommittedRef.current) return;
+    lastCommittedRef.current = text;
+    onCommit?.(text);
+  };
+
+  /** Commits the typed text on blur, unless focus moves into the picker (e.g. ArrowDown into the grid). */
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const target = e.relatedTarget as Node | null;
+    if (target && pickerRef?.current?.contains(target)) return;
+    commit(draft);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (editable && e.key === "Enter") commit(draft);
+    if (editable && e.key === "Escape") setDraft(value); // Discard uncommitted text
+    onKeyDown(e);
+  };
+
   return (
-    <div className={styles.container}>
-      <input
-        ref={inputRef}
-        type="text"
-        readOnly
-        value={value}
-        onFocus={onFocus}
-        onKeyDown={onKeyDown}
-        onClick={handleClick}
-        placeholder={placeholder}
-        className={cn(
-          styles.input,
-          focused ? styles.inputFocused : "",
-          className
+    <>
+      <div className={styles.container}>
+        <input
+          ref={inputRef}
+          type="text"
+          readOnly={!editable}
+          value={editable ? draft : value}
+          onChange={editable ? handleChange : undefined}
+          onBlur={editable ? handleBlur : undefined}
+          onFocus={onFocus}
+          onKeyDown={handleKeyDown}
+          onClick={handleClick}
+          placeholder={placeholder}
+          className={cn(
+            styles.input,
+            focused ? styles.inputFocused : "",
+            onClear && styles.inputClearable,
+            className
+          )}
+          aria-haspopup="dialog"
+          aria-expanded={isPickerOpen}
+          aria-required={required || undefined}
+          aria-invalid={!!errorMessage || undefined}
+          aria-describedby={errorMessage ? errorId : undefined}
+          aria-controls={isPickerOpen ? pickerId : undefined}
+          aria-label={`${placeholder}, current value ${
+            value || "not set"
+          }. ${formatLabel} is ${ariaDateFormat}`}
+        />
+        {onClear && value && (
+          <button
+            type="button"
+            className={styles.clearButton}
+            // Keep focus where it is, so clearing doesn't open the picker
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={(e) => {
+              e.stopPropagation();
+              onClear();
+            }}
+            aria-label="Clear selection"
+          >
+            ×
+          </button>
         )}
-        aria-haspopup="dialog"
-        aria-expanded={isPickerOpen}
-        aria-controls={isPickerOpen ? pickerId : undefined}
-        aria-label={`${placeholder}, current value ${
-          value || "not set"
-        }. Date format is ${ariaDateFormat}`}
-      />
-      <div className={styles.iconWrapper} aria-hidden="true">
-        <CalendarIcon className={styles.icon} />
+        <div className={styles.iconWrapper} aria-hidden="true">
+          {icon ?? <CalendarIcon className={styles.icon} />}
+        </div>
       </div>
-    </div>
+      {/* Error message region, announced when the error changes */}
+      {errorId && (
+        <div id={errorId} className={styles.error} aria-live="polite">
+          {errorMessage}
+        </div>
+      )}
+    </>
   );
 };
 
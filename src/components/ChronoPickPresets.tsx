@@ -0,0 +1,61 @@
+import React from "react";
+import { useChronoPickCore } from "./lib/hooks/useChronoPickCore";
+import { cn } from "./lib/utils/cn";
+import style from "./styles/ChronoPickPresets.module.css";
+
+// Infer the return type of useChronoPickCore to get types for its returned state and functions.
+type CoreReturnType = ReturnType<typeof useChronoPickCore>;
+
+/**
+ * Props for the ChronoPickPresets component.
+ */
+interface ChronoPickPresetsProps {
+  /** The resolved presets, with their active and disabled states. */
+  presetItems: CoreReturnType["presetItems"];
+  /** Function to select a preset's resolved value. */
+  handlePresetSelect: CoreReturnType["handlePresetSelect"];
+  /** Ref to the sidebar, used to include the preset buttons in the picker's Tab focus trap. */
+  presetsRef: React.RefObject<HTMLDivElement | null>;
+}
+
+/**
+ * ChronoPickPresets component.
+ * Renders the presets sidebar next to the calendar, e.g. "Today", "Last 7 days", "This month".
+ * The preset matching the current value is highlighted; presets that cannot be selected are disabled.
+ */
+const ChronoPickPresets: React.FC<ChronoPickPresetsProps> = ({
+  presetItems,
+  handlePresetSelect,
+  presetsRef,
+}) => {
+  return (
+    <div
+      ref={presetsRef}
+      role="group"
+      aria-label="Presets"
+      className={style.container}
+    >
+      {presetItems.map((preset) => (
+        <button
+          key={preset.label}
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            handlePresetSelect(preset.value);
+          }}
+          className={cn(style.presetButton, {
+            [style.active]: preset.isActive,
+            [style.disabled]: preset.isDisabled,
+          })}
+          disabled={preset.isDisabled}
+          aria-pressed={preset.isActive}
+        >
+          {preset.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ChronoPickPresets;
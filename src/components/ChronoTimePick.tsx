@@ -0,0 +1,205 @@
+import React from "react";
+import { createPortal } from "react-dom";
+import { ChronoPickMode, ChronoTimePickProps } from "./lib/types/TChronoPick";
+import { useChronoTimePickCore } from "./lib/hooks/useChronoTimePickCore";
+import { usePickerPopover } from "./lib/hooks/usePickerPopover";
+import ChronoPickInput from "./ChronoPickInput";
+import TimePicker from "./TimePicker";
+import ClockIcon from "./icons/ClockIcon";
+import style from "./styles/global.module.css";
+import inputStyles from "./styles/ChronoPickInput.module.css";
+import { cn } from "./lib/utils/cn";
+
+/**
+ * ChronoTimePick component - A standalone time picker.
+ *
+ * Shares the input field and the animated, portal-rendered popover of `ChronoPick`, and shows
+ * the hours, minutes, seconds and AM/PM as scrollable columns. In each column, ArrowUp/ArrowDown
+ * step through the offered values and ArrowLeft/ArrowRight move to the neighbouring column.
+ * In `Range` mode, a start and an end time are picked side by side.
+ *
+ * @param props - Configuration props for the ChronoTimePick component, see `ChronoTimePickProps`.
+ */
+const ChronoTimePick: React.FC<ChronoTimePickProps> = (props) => {
+  const {
+    inline = false,
+    placeholder = "Select Time",
+    className,
+    placement,
+    offset,
+    showArrow = false,
+  } = props;
+
+  /** Portal, animated open/close state and positioning of the picker relative to the input. */
+  const {
+    inputRef,
+    pickerRef,
+    arrowRef,
+    portalContainer,
+    logicalPickerOpen,
+    shouldRenderPicker,
+    animationClasses,
+    openPickerWithAnimation,
+    closePickerWithAnimation,
+  } = usePickerPopover({
+    inline,
+    containerClassName: style.chronopickContainer,
+    // Move focus into the first column when the picker opens
+    onOpened: () => {
+      if (!pickerRef.current?.contains(document.activeElement))
+        getColumns()[0]?.focus({ preventScroll: true });
+    },
+    placement,
+    offset,
+  });
+
+  /** Core logic hook, provides the selected times and change handlers. */
+  const core = useChronoTimePickCore(props);
+
+  // Unique IDs for ARIA labelling and control
+  const pickerId = "chronopick-time-dialog";
+  const pickerLabelId = "chronopick-time-label";
+
+  /** Gets the column listboxes of the picker, in Tab order. */
+  const getColumns = () =>
+    Array.from(
+      pickerRef.current?.querySelectorAll<HTMLElement>('[role="listbox"]') ??
+        []
+    );
+
+  /** Handles keydown events on the input field (Enter/Space/ArrowDown to open, Escape to close). */
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (
+      (e.key === "Enter" || e.key === " " || e.key === "ArrowDown") &&
+      !inline &&
+      !logicalPickerOpen
+    ) {
+      e.preventDefault();
+      openPickerWithAnimation();
+    } else if (e.key === "Escape" && logicalPickerOpen && !inline) {
+      e.preventDefault();
+      closePickerWithAnimation();
+    }
+  };
+
+  /** Handles keydown events on the picker (Escape or Enter to close, Tab for focus trapping). */
+  const handlePickerContainerKeyDown = (
+    e: React.KeyboardEvent<HTMLDivElement>
+  ) => {
+    if ((e.key === "Escape" || e.key === "Enter") && !inline) {
+      e.preventDefault();
+      e.stopPropagation();
+      closePickerWithAnimation();
+      inputRef.current?.focus(); // Return focus to input field
+      return;
+    }
+    // Trap focus within the columns of the picker
+    if (e.key === "Tab" && !inline) {
+      const columns = getColumns();
+      if (columns.length === 0) return;
+      const currentIndex = columns.findIndex(
+        (el) => el === document.activeElement
+      );
+      const nextIndex = e.shiftKey
+        ? (currentIndex - 1 + columns.length) % columns.length
+        : (currentIndex + 1) % columns.length;
+      e.preventDefault();
+      columns[nextIndex].focus();
+    }
+  };
+
+  /** The props shared by the start and end time pickers. */
+  const timePickerProps = {
+    hourCycle: core.hourCycle,
+    showSeconds: core.showSeconds,
+    minuteStep: core.minuteStep,
+    secondStep: core.secondStep,
+    meridiems: core.localeData.meridiems,
+    isTimeDisabled: core.isTimeDisabled,
+    hasSecondConstraints: core.hasSecondConstraints,
+    layout: "columns",
+  } as const;
+
+  /** JSX for the picker's content (one set of columns, or two in range mode). */
+  const pickerContent = (
+    <div
+      ref={pickerRef}
+      id={pickerId}
+      role="dialog"
+      aria-modal={!inline}
+      aria-labelledby={pickerLabelId}
+      className={cn(
+        style.chronopickPickerContent,
+        style.chronopickPickerContentAuto,
+        animationClasses,
+        { "relative": inline || showArrow }
+      )}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={handlePickerContainerKeyDown}
+    >
+      {/* Arrow pointing at the input, moved along the picker's edge by `usePickerPopover` */}
+      {showArrow && !inline && (
+        <div
+          ref={arrowRef}
+          className={style.chronopickArrow}
+          aria-hidden="true"
+        />
+      )}
+      {/* Hidden label for the dialog, for accessibility */}
+      <h2 id={pickerLabelId} className="sr-only">
+        {core.mode === ChronoPickMode.Range ? "Time range" : "Time"}
+      </h2>
+      <div className={style.chronopickTimePickers}>
+        <TimePicker
+          {...timePickerProps}
+          label={core.isRange ? "Start" : undefined}
+          selectedHour={core.startTime.hours}
+          selectedMinute={core.startTime.minutes}
+          selectedSecond={core.startTime.seconds}
+          handleTimeChange={core.handleTimeChange}
+        />
+        {core.isRange && (
+          <TimePicker
+            {...timePickerProps}
+            label="End"
+            selectedHour={core.endTime.hours}
+            selectedMinute={core.endTime.minutes}
+            selectedSecond={core.endTime.seconds}
+            handleTimeChange={core.handleEndTimeChange}
+          />
+        )}
+      </div>
+    </div>
+  );
+
+  // If inline, render pickerContent directly without portal or input field wrapper
+  if (inline) {
+    return pickerContent;
+  }
+
+  return (
+    <div className={style.chronopickWrapper}>
+      <ChronoPickInput
+        inputRef={inputRef}
+        value={core.displayValue}
+        onFocus={() => {
+          if (!logicalPickerOpen) openPickerWithAnimation();
+        }}
+        className={className}
+        onKeyDown={handleInputKeyDown}
+        placeholder={placeholder}
+        pickerId={pickerId}
+        isPickerOpen={logicalPickerOpen}
+        inline={inline}
+        effectiveDateFormat={core.timeFormat}
+        icon={<ClockIcon className={inputStyles.icon} />}
+        formatLabel="Time format"
+      />
+      {shouldRenderPicker &&
+        portalContainer &&
+        createPortal(pickerContent, portalContainer)}
+    </div>
+  );
+};
+
+export default ChronoTimePick;
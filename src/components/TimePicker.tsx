@@ -1,5 +1,13 @@
-import React from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+} from "react";
 import { useChronoPickCore } from "./lib/hooks/useChronoPickCore";
+import { TimeValue } from "./lib/types/TChronoPick";
+import { cn } from "./lib/utils/cn";
 import styles from "./styles/TimePicker.module.css";
 
 type CoreReturnType = ReturnType<typeof useChronoPickCore>;
@@ -7,67 +15,370 @@ type CoreReturnType = ReturnType<typeof useChronoPickCore>;
 interface TimePickerProps {
   selectedHour: CoreReturnType["selectedHour"];
   selectedMinute: CoreReturnType["selectedMinute"];
+  selectedSecond: CoreReturnType["selectedSecond"];
   handleTimeChange: CoreReturnType["handleTimeChange"];
-  hourSelectRef: React.RefObject<HTMLSelectElement | null>;
-  minuteSelectRef: React.RefObject<HTMLSelectElement | null>;
+  /** `12` renders hours 1-12 and an AM/PM selector, `24` renders hours 0-23. */
+  hourCycle: CoreReturnType["hourCycle"];
+  /** If true, a seconds selector is rendered. */
+  showSeconds: CoreReturnType["showSeconds"];
+  /** The interval between the offered minutes. */
+  minuteStep: CoreReturnType["minuteStep"];
+  /** The interval between the offered seconds. */
+  secondStep: CoreReturnType["secondStep"];
+  /** The AM and PM markers of the configured locale. */
+  meridiems: CoreReturnType["localeData"]["meridiems"];
+  /**
+   * Checks whether a time cannot be selected (for the date this picker edits).
+   * Options without any allowed time are rendered as disabled.
+   */
+  isTimeDisabled?: (time: TimeValue) => boolean;
+  /**
+   * Whether `isTimeDisabled` can disable the first second of a minute but allow a later one.
+   * If false, a minute is allowed if its first second is, instead of checking each of its seconds. Defaults to true.
+   */
+  hasSecondConstraints?: boolean;
+  /** The picker's label, e.g. "Start" or "End" in range mode. Defaults to "Select Time". */
+  label?: string;
+  /**
+   * `default` renders the picker as a section below the calendar with a visible label;
+   * `inline` renders only the selects (the label is kept for screen readers), e.g. in a list row.
+   */
+  variant?: "default" | "inline";
+  /**
+   * `selects` renders a select per time unit; `columns` renders scrollable listbox columns
+   * (as in `ChronoTimePick`), navigable with the arrow keys.
+   */
+  layout?: "selects" | "columns";
 }
 
+/**
+ * Gets the options of a time unit select: every `step`-th value from 0 to `count - 1`.
+ * @param count The number of values of the unit (24 for hours, 60 for minutes and seconds).
+ * @param step The interval between the options.
+ * @returns The sorted option values.
+ */
+const getStepOptions = (count: number, step: number): number[] =>
+  Array.from({ length: Math.ceil(count / step) }, (_, i) => i * step);
+
+/**
+ * Adds the selected value to the options of a time unit select, so a time that is not on the step is still shown.
+ * @param options The sorted option values, see `getStepOptions`.
+ * @param selected The currently selected value.
+ * @returns The sorted option values, including `selected`.
+ */
+const withSelectedOption = (options: number[], selected: number): number[] =>
+  options.includes(selected)
+    ? options
+    : [...options, selected].sort((a, b) => a - b);
+
+/** The default `isTimeDisabled`, kept stable so the disabled options are not recomputed on every render. */
+const isNoTimeDisabled = () => false;
+
+/** Pads a time unit to two digits, e.g. 5 becomes "05". */
+const pad = (unit: number) => String(unit).padStart(2, "0");
+
+/** An option of a time unit column. */
+interface TimeUnitOption {
+  value: number;
+  text: string;
+  disabled: boolean;
+}
+
+/** A time unit (hours, minutes, seconds or AM/PM) of the picker with its options. */
+interface TimeUnitColumn {
+  unit: "hour" | "minute" | "second" | "meridiem";
+  label: string;
+  selected: number;
+  options: TimeUnitOption[];
+  onSelect: (value: number) => void;
+}
+
+interface TimeColumnProps {
+  column: TimeUnitColumn;
+  /** Moves focus to the column `offset` places to the left (-1) or right (1). */
+  onFocusSibling: (offset: number) => void;
+}
+
+/**
+ * A scrollable listbox column of the `columns` layout. The selected option is kept scrolled into view.
+ * ArrowDown/ArrowUp select the next/previous enabled option (wrapping around), Home/End the first/last one,
+ * and ArrowLeft/ArrowRight move focus to the neighbouring column.
+ */
+const TimeColumn: React.FC<TimeColumnProps> = ({ column, onFocusSibling }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const optionIdPrefix = `chronopick-time-${column.unit}-${useId()}`;
+
+  // Center the selected option in the column, without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    const option = list?.querySelector<HTMLElement>('[aria-selected="true"]');
+    if (!list || !option) return;
+    list.scrollTop =
+      option.offsetTop - (list.clientHeight - option.offsetHeight) / 2;
+  }, [column.selected]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const enabled = column.options.filter((option) => !option.disabled);
+    if (enabled.length === 0) return;
+    const index = enabled.findIndex(
+      (option) => option.value === column.selected
+    );
+    let next: TimeUnitOption | undefined;
+    switch (e.key) {
+      case "ArrowDown":
+        next = enabled[(index + 1) % enabled.length];
+        break;
+      case "ArrowUp":
+        next = enabled[(index - 1 + enabled.length) % enabled.length];
+        break;
+      case "Home":
+        next = enabled[0];
+        break;
+      case "End":
+        next = enabled[enabled.length - 1];
+        break;
+      case "ArrowLeft":
+      case "ArrowRight":
+        e.preventDefault();
+        onFocusSibling(e.key === "ArrowLeft" ? -1 : 1);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    column.onSelect(next.value);
+  };
+
+  return (
+    <div
+      ref={listRef}
+      role="listbox"
+      tabIndex={0}
+      aria-label={column.label}
+      aria-activedescendant={`${optionIdPrefix}-${column.selected}`}
+      className={styles.column}
+      onKeyDown={handleKeyDown}
+    >
+      {column.options.map((option) => (
+        <div
+          key={option.value}
+          id={`${optionIdPrefix}-${option.value}`}
+          role="option"
+          aria-selected={option.value === column.selected}
+          aria-disabled={option.disabled || undefined}
+          className={cn(styles.option, {
+            [styles.optionSelected]: option.value === column.selected,
+            [styles.optionDisabled]: option.disabled,
+          })}
+          onClick={() => !option.disabled && column.onSelect(option.value)}
+        >
+          {option.text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const TimePicker: React.FC<TimePickerProps> = ({
   selectedHour,
   selectedMinute,
+  selectedSecond,
   handleTimeChange,
-  hourSelectRef,
-  minuteSelectRef,
+  hourCycle,
+  showSeconds,
+  minuteStep,
+  secondStep,
+  meridiems,
+  isTimeDisabled = isNoTimeDisabled,
+  hasSecondConstraints = true,
+  label = "Select Time",
+  variant = "default",
+  layout = "selects",
 }) => {
-  const timePickerLabelId = "chronopick-timepicker-label";
+  /** Ref to the columns of the `columns` layout, for moving focus between them. */
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const timePickerLabelId = `chronopick-timepicker-label-${useId()}`;
+  const is12Hour = hourCycle === 12;
+  const isPM = selectedHour >= 12;
+
+  // In the 12-hour cycle, the hour select lists 12, 1, ..., 11 and its values are the 0-23 hours of the selected half-day
+  const hourOptions = is12Hour
+    ? Array.from({ length: 12 }, (_, i) => i + (isPM ? 12 : 0))
+    : Array.from({ length: 24 }, (_, i) => i);
+  // The disabled states are computed for the options on the step; a selected value off the step is only added for display
+  const minuteSteps = useMemo(
+    () => getStepOptions(60, minuteStep),
+    [minuteStep]
+  );
+  const secondSteps = useMemo(
+    () => (showSeconds ? getStepOptions(60, secondStep) : [0]),
+    [showSeconds, secondStep]
+  );
+  const minuteOptions = withSelectedOption(minuteSteps, selectedMinute);
+  const secondOptions = showSeconds
+    ? withSelectedOption(secondSteps, selectedSecond)
+    : secondSteps;
+
+  // An option is disabled if no time it leads to is allowed, e.g. an hour is disabled if all its minutes are.
+  // Without second constraints, the first second of a minute stands for all of them
+  const isMinuteDisabled = useCallback(
+    (hours: number, minutes: number) =>
+      (hasSecondConstraints ? secondSteps : secondSteps.slice(0, 1)).every(
+        (seconds) => isTimeDisabled({ hours, minutes, seconds })
+      ),
+    [secondSteps, hasSecondConstraints, isTimeDisabled]
+  );
+  /** Whether each minute on the step is disabled, indexed by the hour (0-23) and the minute. */
+  const disabledMinutes = useMemo(
+    () =>
+      Array.from({ length: 24 }, (_, hours) => {
+        const row: boolean[] = [];
+        for (const minutes of minuteSteps)
+          row[minutes] = isMinuteDisabled(hours, minutes);
+        return row;
+      }),
+    [minuteSteps, isMinuteDisabled]
+  );
+  /** Whether each of the 0-23 hours is disabled. */
+  const disabledHours = useMemo(
+    () => disabledMinutes.map((row) => minuteSteps.every((m) => row[m])),
+    [disabledMinutes, minuteSteps]
+  );
+  /** Whether the AM and PM half-days are disabled, in that order. */
+  const disabledMeridiems = useMemo(
+    () =>
+      [0, 12].map((start) =>
+        disabledHours.slice(start, start + 12).every(Boolean)
+      ),
+    [disabledHours]
+  );
+
+  /** The columns of the picker, one per time unit, rendered as selects or as scrollable lists. */
+  const columns: TimeUnitColumn[] = [
+    {
+      unit: "hour",
+      label: "Hour",
+      selected: selectedHour,
+      options: hourOptions.map((h) => ({
+        value: h,
+        text: is12Hour ? pad(h % 12 || 12) : pad(h),
+        disabled: disabledHours[h],
+      })),
+      onSelect: (h) => handleTimeChange(h),
+    },
+    {
+      unit: "minute",
+      label: "Minute",
+      selected: selectedMinute,
+      options: minuteOptions.map((m) => ({
+        value: m,
+        text: pad(m),
+        disabled:
+          disabledMinutes[selectedHour][m] ??
+          isMinuteDisabled(selectedHour, m),
+      })),
+      onSelect: (m) => handleTimeChange(undefined, m),
+    },
+  ];
+  if (showSeconds)
+    columns.push({
+      unit: "second",
+      label: "Second",
+      selected: selectedSecond,
+      options: secondOptions.map((s) => ({
+        value: s,
+        text: pad(s),
+        disabled: isTimeDisabled({
+          hours: selectedHour,
+          minutes: selectedMinute,
+          seconds: s,
+        }),
+      })),
+      onSelect: (s) => handleTimeChange(undefined, undefined, s),
+    });
+  // The AM/PM column's values are the hour offsets of the half-days
+  if (is12Hour)
+    columns.push({
+      unit: "meridiem",
+      label: "AM/PM",
+      selected: isPM ? 12 : 0,
+      options: [
+        { value: 0, text: meridiems[0], disabled: disabledMeridiems[0] },
+        { value: 12, text: meridiems[1], disabled: disabledMeridiems[1] },
+      ],
+      onSelect: (offset) => handleTimeChange((selectedHour % 12) + offset),
+    });
+
+  if (layout === "columns") {
+    return (
+      <div className={styles.columnsWrapper}>
+        <p id={timePickerLabelId} className={styles.label}>
+          {label}
+        </p>
+        <div
+          ref={columnsRef}
+          className={styles.columns}
+          role="group"
+          aria-labelledby={timePickerLabelId}
+        >
+          {columns.map((column, index) => (
+            <TimeColumn
+              key={column.unit}
+              column={column}
+              onFocusSibling={(offset) =>
+                columnsRef.current
+                  ?.querySelectorAll<HTMLElement>('[role="listbox"]')
+                  [index + offset]?.focus()
+              }
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
 
   return (
-    <div className={styles.wrapper}>
-      <p id={timePickerLabelId} className={styles.label}>
-        Select Time
+    <div
+      className={variant === "inline" ? styles.inlineWrapper : styles.wrapper}
+    >
+      <p
+        id={timePickerLabelId}
+        className={cn(styles.label, { "sr-only": variant === "inline" })}
+      >
+        {label}
       </p>
       <div
         className={styles.group}
         role="group"
         aria-labelledby={timePickerLabelId}
       >
-        <select
-          ref={hourSelectRef}
-          value={String(selectedHour).padStart(2, "0")}
-          onChange={(e) =>
-            handleTimeChange(parseInt(e.target.value), undefined)
-          }
-          className={styles.select}
-          aria-label="Hour"
-        >
-          {Array.from({ length: 24 }, (_, i) => String(i).padStart(2, "0")).map(
-            (h) => (
-              <option key={h} value={h}>
-                {h}
-              </option>
-            )
-          )}
-        </select>
-        <span className={styles.separator} aria-hidden="true">
-          :
-        </span>
-        <select
-          ref={minuteSelectRef}
-          value={String(selectedMinute).padStart(2, "0")}
-          onChange={(e) =>
-            handleTimeChange(undefined, parseInt(e.target.value))
-          }
-          className={styles.select}
-          aria-label="Minute"
-        >
-          {Array.from({ length: 60 }, (_, i) => String(i).padStart(2, "0")).map(
-            (m) => (
-              <option key={m} value={m}>
-                {m}
-              </option>
-            )
-          )}
-        </select>
+        {columns.map((column, index) => (
+          <React.Fragment key={column.unit}>
+            {/* Hours, minutes and seconds are separated by colons */}
+            {index > 0 && column.unit !== "meridiem" && (
+              <span className={styles.separator} aria-hidden="true">
+                :
+              </span>
+            )}
+            <select
+              value={column.selected}
+              onChange={(e) => column.onSelect(parseInt(e.target.value))}
+              className={styles.select}
+              aria-label={column.label}
+            >
+              {column.options.map((option) => (
+                <option
+                  key={option.value}
+                  value={option.value}
+                  disabled={option.disabled}
+                >
+                  {option.text}
+                </option>
+              ))}
+            </select>
+          </React.Fragment>
+        ))}
       </div>
     </div>
   );
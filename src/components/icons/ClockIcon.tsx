@@ -0,0 +1,29 @@
+import React from "react";
+
+/**
+ * ClockIcon component.
+ * Renders a generic clock SVG icon.
+ * Used as a decorative element within time input fields.
+ * @param props - Standard SVG props.
+ */
+const ClockIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg
+    width="20"
+    height="20"
+    viewBox="0 0 20 20"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+    {...props}
+  >
+    <circle cx="10" cy="10" r="7.4" stroke="#8987A0" strokeWidth="1.25" />
+    <path
+      d="M10 6.25V10L12.5 11.875"
+      stroke="#8987A0"
+      strokeWidth="1.25"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+export default ClockIcon;
@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback, useRef, useId } from "react";
+import { CalendarView, ChronoPickProps } from "../types/TChronoPick";
+import {
+  describeDateFormat,
+  formatDate,
+  generateDateId,
+} from "../utils/dateUtils";
+import { localizeDigits } from "../utils/localeUtils";
+import { useChronoPickCore } from "./useChronoPickCore";
+
+/**
+ * Headless hook `useChronoPick` exposes ChronoPick's selection, focus and keyboard behavior
+ * without any markup, for rendering a fully custom date picker.
+ *
+ * It returns everything `useChronoPickCore` provides (view state such as `currentView`, `focusedDate`,
+ * `monthPanels` and `displayValue`, and handlers such as `handleDayClick`), the picker's open state,
+ * and prop getters to spread onto your own elements:
+ * - `getInputProps()`: the text input that opens the picker (a controlled `value`, a ref, focus and key handlers, ARIA attributes).
+ *   An editable input commits its text on Enter or blur, but not when focus moves into the grid.
+ * - `getGridProps()`: the element wrapping the current view's cells; it handles arrow key navigation,
+ *   Enter/Space selection and Escape, and points `aria-activedescendant` at the focused cell.
+ * - `getHeaderProps()`: the header's label and the props of its previous, next and view switch buttons.
+ * - `getDayProps(date)`: a day cell `<button>` of the Days view, with its id, ARIA attributes and handlers.
+ *
+ * Unlike `ChronoPick`, the hook renders no portal and does not close on outside clicks; call `close()` for that.
+ *
+ * @param props - The same props as the `ChronoPick` component, see `ChronoPickProps`.
+ * @returns The core state and handlers, `isOpen`, `open`, `close`, and the prop getters.
+ */
+export const useChronoPick = (props: ChronoPickProps) => {
+  const {
+    inline = false,
+    editable = false,
+    placeholder = "Select Date",
+    locale,
+    open: openProp,
+    defaultOpen = false,
+    onOpenChange,
+  } = props;
+
+  /** State: Whether the picker is open when `open` is not controlled. */
+  const [isOpenState, setIsOpenState] = useState(defaultOpen);
+  /** Whether the picker is open: inline pickers are always open, otherwise per the `open` prop or the internal state. */
+  const isOpen = inline || (openProp ?? isOpenState);
+  /** State: The text typed into an editable input, before it is committed. */
+  const [inputText, setInputText] = useState("");
+  /** The last committed text, so a blur right after Enter doesn't commit the same text again. */
+  const lastCommittedTextRef = useRef<string | null>(null);
+  /** Ref to the input element, to return focus to it on Escape. */
+  const inputRef = useRef<HTMLInputElement>(null);
+  /** Ref to the grid element, to move focus into it with ArrowDown from an editable input. */
+  const gridRef = useRef<HTMLDivElement>(null);
+  /** ID of the picker, referenced by the input's `aria-controls`. */
+  const pickerId = `chronopick-dialog-${useId()}`;
+
+  /**
+   * Opens or closes the picker: stores the new state when `open` is not controlled,
+   * and calls `onOpenChange` if the state changes.
+   */
+  const setIsOpen = useCallback(
+    (nextOpen: boolean) => {
+      if (inline || nextOpen === isOpen) return;
+      if (openProp === undefined) setIsOpenState(nextOpen);
+      onOpenChange?.(nextOpen);
+    },
+    [inline, isOpen, openProp, onOpenChange]
+  );
+
+  /** Opens the picker. */
+  const open = useCallback(() => setIsOpen(true), [setIsOpen]);
+
+  /** Closes the picker. */
+  const close = useCallback(() => setIsOpen(false), [setIsOpen]);
+
+  /** Opens or closes the picker, e.g. when the core logic closes it after a selection. */
+  const handleVisibilityChange = useCallback(
+    (visible: boolean) => (visible ? open() : close()),
+    [open, close]
+  );
+
+  /** Core logic hook, provides state and handlers for calendar functionality. */
+  const core = useChronoPickCore({
+    ...props,
+    onVisibilityChange: handleVisibilityChange,
+    isPickerVisible: isOpen,
+  });
+
+  /** Commits the typed text, unless the same text was already committed. */
+  const commitText = (text: string) => {
+    if (text === lastCommittedTextRef.current) return;
+    lastCommittedTextRef.current = text;
+    core.commitInputValue(text);
+  };
+
+  // Keep the typed text in sync with the committed value (e.g. after a calendar selection)
+  useEffect(() => {
+    setInputText(core.displayValue);
+  }, [core.displayValue]);
+
+  /** The header label of the current view, e.g. "January 2024", "2024" or "2020 - 2031". */
+  const headerLabel =
+    core.currentView === CalendarView.Days
+      ? formatDate(core.currentMonthDate, "MMMM YYYY", false, { locale })
+      : core.currentView === CalendarView.Years
+        ? localizeDigits(
+            `${core.yearsToRender[0]} - ${
+              core.yearsToRender[core.yearsToRender.length - 1]
+            }`,
+            core.localeData
+          )
+        : formatDate(core.currentMonthDate, "YYYY", false, { locale });
+
+  /**
+   * Gets the props of the text input that shows the value and opens the picker.
+   * Enter, Space and ArrowDown open the picker and Escape closes it. An editable input
+   * (`editable`) accepts typed text, committed on Enter or blur; there ArrowDown moves focus into the grid.
+   * @returns Props to spread onto an `<input>`.
+   */
+  const getInputProps = () => ({
+    ref: inputRef,
+    type: "text",
+    value: editable ? inputText : core.displayValue,
+    readOnly: !editable,
+    placeholder,
+    onFocus: open,
+    onClick: open,
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!editable) return;
+      setInputText(e.target.value);
+      lastCommittedTextRef.current = null;
+      core.previewInputValue(e.target.value);
+    },
+    onBlur: (e: React.FocusEvent<HTMLInputElement>) => {
+      // Moving focus into the grid (ArrowDown) keeps the text uncommitted
+      const target = e.relatedTarget as Node | null;
+      if (target && gridRef.current?.contains(target)) return;
+      if (editable) commitText(inputText);
+    },
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (editable) {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          commitText(inputText);
+          close();
+          return;
+        }
+        if (e.key === "Escape") setInputText(core.displayValue); // Discard uncommitted text
+        if (e.key === "ArrowDown" && isOpen) {
+          e.preventDefault();
+          gridRef.current?.focus({ preventScroll: true });
+          return;
+        }
+        if (e.key === " ") return;
+      }
+      if (
+        (e.key === "Enter" || e.key === " " || e.key === "ArrowDown") &&
+        !isOpen
+      ) {
+        e.preventDefault();
+        open();
+      } else if (e.key === "Escape" && isOpen) {
+        e.preventDefault();
+        close();
+      }
+    },
+    "aria-haspopup": "dialog" as const,
+    "aria-expanded": isOpen,
+    "aria-controls": isOpen ? pickerId : undefined,
+    "aria-label": `${placeholder}, current value ${
+      core.displayValue || "not set"
+    }. Date format is ${describeDateFormat(core.effectiveDateFormat, true)}`,
+  });
+
+  /**
+   * Gets the props of the element wrapping the cells of the current view.
+   * It handles arrow key navigation, Enter/Space selection and Escape (closes the picker
+   * and returns focus to the input), and points `aria-activedescendant` at the focused cell.
+   * @returns Props to spread onto the grid element.
+   */
+  const getGridProps = () => ({
+    ref: gridRef,
+    id: pickerId,
+    role: "grid",
+    tabIndex: inline ? -1 : 0,
+    "aria-label": headerLabel,
+    "aria-activedescendant": generateDateId(
+      core.focusedDate,
+      core.currentView
+    ),
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+      if (e.key === "Escape" && !inline) {
+        e.preventDefault();
+        inputRef.current?.focus(); // Focusing first, so the input's `onFocus` doesn't reopen the picker
+        close();
+        return;
+      }
+      if (core.handleKeyDown(e, core.currentView)) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    },
+  });
+
+  /**
+   * Gets the header's label and the props of its buttons: `prevButtonProps` and `nextButtonProps` move
+   * the displayed period (month(s), year or page of years, per view), and `viewButtonProps` switches
+   * to the next coarser view (Days to Months to Years); it is disabled in Years view.
+   * @returns The `label` and the props to spread onto the three `<button>`s.
+   */
+  const getHeaderProps = () => {
+    const nextView =
+      core.currentView === CalendarView.Days
+        ? CalendarView.Months
+        : core.currentView === CalendarView.Years
+          ? null
+          : CalendarView.Years;
+    const nextViewName = nextView === CalendarView.Months ? "month" : "year";
+    return {
+      label: headerLabel,
+      prevButtonProps: {
+        type: "button" as const,
+        "aria-label": core.getPeriodNavigationLabel(-1),
+        onClick: () => core.navigatePeriod(-1),
+      },
+      nextButtonProps: {
+        type: "button" as const,
+        "aria-label": core.getPeriodNavigationLabel(1),
+        onClick: () => core.navigatePeriod(1),
+      },
+      viewButtonProps: {
+        type: "button" as const,
+        disabled: !nextView,
+        "aria-label": nextView
+          ? `Change to ${nextViewName} view. Currently showing ${headerLabel}`
+          : headerLabel,
+        onClick: () => {
+          if (nextView) core.setCurrentView(nextView);
+        },
+      },
+    };
+  };
+
+  return {
+    ...core,
+    isOpen,
+    open,
+    close,
+    getInputProps,
+    getGridProps,
+    getHeaderProps,
+  };
+};
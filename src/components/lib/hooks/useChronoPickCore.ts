@@ -1,15 +1,43 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import {
   ChronoPickMode,
   SelectedDateType,
   DateRange,
   ChronoPickProps,
   CalendarView,
+  WeekNumbering,
+  CalendarMonth,
+  ChronoPickPreset,
+  TimeValue,
+  DayState,
+  ChronoPickDayMeta,
+  ChronoPickValidationError,
 } from "../types/TChronoPick";
 import {
   formatDate,
   getDaysInMonth,
   getFirstDayOfMonth,
+  getCalendarWeeks,
+  getNextRangeSelection,
+  resolveRangeEnd,
+  createRangeEndResolver,
+  RangeEndOptions,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear,
+  startOfQuarter,
+  endOfQuarter,
+  startOfFiscalYear,
+  DateFormatOptions,
+  isSameSelection,
+  getEmptySelection,
   addMonths,
   addYears,
   addWeeks,
@@ -17,19 +45,47 @@ import {
   endOfWeek,
   isSameDay,
   isDateDisabled,
+  isDateInRange,
+  matchesDate,
+  generateDateId,
   getYearsRange,
   setTime,
+  getTimeValue,
+  timeValueToSeconds,
+  getTimeSlots,
+  getDefaultTimeFormat,
+  findNearestAllowedTime,
+  sortDates,
   isTimeEqual,
   getFirstFocusableDate,
   isBeforeDay,
   isAfterDay,
+  parseDateInput,
 } from "../utils/dateUtils";
 import {
   DEFAULT_DATE_FORMAT,
-  DEFAULT_TIME_FORMAT,
+  DEFAULT_MONTH_FORMAT,
+  DEFAULT_YEAR_FORMAT,
+  DEFAULT_QUARTER_FORMAT,
   YEARS_PER_VIEW,
-  MONTH_NAMES_SHORT,
+  RANGE_VALUE_MODES,
+  PERIOD_MODES,
 } from "../utils/constants";
+import { getLocaleData } from "../utils/localeUtils";
+import { validateSelection } from "../utils/validation";
+import {
+  toZonedTime,
+  fromZonedTime,
+  mapSelectedDates,
+  toZonedMatcher,
+} from "../utils/timeZoneUtils";
+
+/**
+ * Converts a camel case name to kebab case, e.g. "soldOut" to "sold-out".
+ * Used for the class names and data attributes of `modifiers`.
+ */
+const toKebabCase = (name: string): string =>
+  name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
 
 /**
  * Props for the `useChronoPickCore` hook.
@@ -67,22 +123,231 @@ interface UseChronoPickCoreParams extends ChronoPickProps {
  */
 export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
   const {
-    value,
-    onChange,
+    value: valueProp,
+    defaultValue,
+    onChange: onChangeProp,
     mode = ChronoPickMode.Single,
-    minDate,
-    maxDate,
-    dateFormat = DEFAULT_DATE_FORMAT,
-    disabledDates,
+    minDate: minDateProp,
+    maxDate: maxDateProp,
+    dateFormat,
+    disabledDates: disabledDatesProp,
+    minRangeDays,
+    maxRangeDays,
+    rangeCrossesDisabled = "allow",
     enableTime = false,
-    onVisibilityChange,
+    hourCycle = 12,
+    showSeconds = false,
+    minuteStep = 1,
+    secondStep = 1,
+    minTime,
+    maxTime,
+    disabledTimes,
+    onParseError,
+    locale,
+    weekStartsOn,
+    weekNumbering = WeekNumbering.ISO,
+    fiscalYearStartMonth = 0,
+    numberOfMonths = 1,
+    pagedNavigation = false,
+    presets,
+    timeZone,
+    timeZoneDisambiguation = "compatible",
+    modifiers: modifiersProp,
+    modifierClassNames,
+    dayMeta,
+    view: viewProp,
+    onViewChange,
+    month: monthProp,
+    onMonthChange,
+    serializeDate: serializeDateProp,
+    required = false,
+    validate,
+    onValidate,
+    confirmMode = false,
+    onVisibilityChange: onVisibilityChangeProp,
     isPickerVisible,
   } = params;
 
-  /** The effective date format string, combining `dateFormat` and `DEFAULT_TIME_FORMAT` if `enableTime` is true. */
-  const effectiveDateFormat = enableTime
-    ? `${dateFormat} ${DEFAULT_TIME_FORMAT}`
-    : dateFormat;
+  /*
+   * With a `timeZone`, all calendar logic works on wall-clock dates: local `Date`s whose local fields
+   * equal the time in `timeZone`. Incoming instants are converted with `toZonedTime` and outgoing
+   * values are converted back to instants with `fromZonedTime` in `onChange`.
+   */
+  /** State: The selected value when `value` is not controlled, starting at `defaultValue`. */
+  const [uncontrolledValue, setUncontrolledValue] = useState<SelectedDateType>(
+    defaultValue ?? null
+  );
+  /** Whether the selected value is controlled by the `value` prop. */
+  const isValueControlled = valueProp !== undefined;
+  /** The selected value as instants: the `value` prop, or the internal state when uncontrolled. */
+  const sourceValue = isValueControlled ? valueProp : uncontrolledValue;
+  /** The committed selected value as wall-clock dates in `timeZone`. */
+  const committedValue = useMemo(
+    () =>
+      timeZone
+        ? mapSelectedDates(sourceValue, (date) => toZonedTime(date, timeZone))
+        : sourceValue,
+    [sourceValue, timeZone]
+  );
+  /**
+   * State: The uncommitted selection (wall-clock dates) of the open picker in `confirmMode`,
+   * or `undefined` while nothing was changed since it opened or since the last Apply.
+   */
+  const [draftValue, setDraftValue] = useState<SelectedDateType | undefined>(
+    undefined
+  );
+  /** The selected value the picker works on: the draft in `confirmMode`, otherwise the committed value. */
+  const value =
+    confirmMode && draftValue !== undefined ? draftValue : committedValue;
+  /** `minDate` as a wall-clock date in `timeZone`. */
+  const minDate = useMemo(
+    () =>
+      timeZone && minDateProp ? toZonedTime(minDateProp, timeZone) : minDateProp,
+    [minDateProp, timeZone]
+  );
+  /** `maxDate` as a wall-clock date in `timeZone`. */
+  const maxDate = useMemo(
+    () =>
+      timeZone && maxDateProp ? toZonedTime(maxDateProp, timeZone) : maxDateProp,
+    [maxDateProp, timeZone]
+  );
+  /**
+   * `disabledDates` for wall-clock dates in `timeZone`. A predicate receives the instant
+   * at which the wall-clock date starts in `timeZone`.
+   */
+  const disabledDates = useMemo(
+    () =>
+      timeZone && disabledDatesProp
+        ? toZonedMatcher(disabledDatesProp, timeZone)
+        : disabledDatesProp,
+    [disabledDatesProp, timeZone]
+  );
+  /** `modifiers` for wall-clock dates in `timeZone`, converted like `disabledDates`. */
+  const modifiers = useMemo(
+    () =>
+      timeZone && modifiersProp
+        ? Object.fromEntries(
+            Object.entries(modifiersProp).map(([name, matcher]) => [
+              name,
+              toZonedMatcher(matcher, timeZone),
+            ])
+          )
+        : modifiersProp,
+    [modifiersProp, timeZone]
+  );
+  /**
+   * Emits a value of wall-clock dates as instants, and stores it when the value is uncontrolled.
+   * If a date falls into a DST gap or overlap and `timeZoneDisambiguation` is "reject", the change is dropped.
+   */
+  const emitChange = useCallback(
+    (nextValue: SelectedDateType) => {
+      let isRejected = false;
+      const instantValue = timeZone
+        ? mapSelectedDates(nextValue, (date) => {
+            const instant = fromZonedTime(
+              date,
+              timeZone,
+              timeZoneDisambiguation
+            );
+            if (!instant) isRejected = true;
+            return instant ?? date;
+          })
+        : nextValue;
+      if (isRejected) return;
+      if (!isValueControlled) setUncontrolledValue(instantValue);
+      onChangeProp?.(instantValue);
+    },
+    [onChangeProp, timeZone, timeZoneDisambiguation, isValueControlled]
+  );
+  /**
+   * Applies a change of the selection: held as the draft while the picker is open in `confirmMode`,
+   * otherwise emitted right away.
+   */
+  const onChange = useCallback(
+    (nextValue: SelectedDateType) => {
+      if (confirmMode && isPickerVisible) setDraftValue(nextValue);
+      else emitChange(nextValue);
+    },
+    [confirmMode, isPickerVisible, emitChange]
+  );
+  /**
+   * Closes the picker after a selection is completed. In `confirmMode` the picker stays open
+   * until the draft is applied or cancelled.
+   */
+  const onVisibilityChange = useCallback(
+    (visible: boolean) => {
+      if (visible || !confirmMode) onVisibilityChangeProp(visible);
+    },
+    [confirmMode, onVisibilityChangeProp]
+  );
+
+  // Discard the draft when the picker closes without Apply (Escape, outside click)
+  useEffect(() => {
+    if (!isPickerVisible) setDraftValue(undefined);
+  }, [isPickerVisible]);
+  /** Returns the current date and time as a wall-clock date in `timeZone` (or local time). */
+  const getNow = useCallback(
+    () => (timeZone ? toZonedTime(new Date(), timeZone) : new Date()),
+    [timeZone]
+  );
+  /** The current date in `timeZone`, marked as "today" in the grids. */
+  const today = getNow();
+
+  /** Names, digits and week start for the configured `locale`. */
+  const localeData = useMemo(() => getLocaleData(locale), [locale]);
+  /** Options passed to `formatDate`/`parseDate` for the input value. */
+  const formatOptions = useMemo<DateFormatOptions>(
+    () => ({ locale, fiscalYearStartMonth }),
+    [locale, fiscalYearStartMonth]
+  );
+  /** The first day of the week (0 for Sunday, 1 for Monday, etc.): `weekStartsOn` if given, else the locale's. */
+  const firstDayOfWeek = weekStartsOn ?? localeData.firstDayOfWeek;
+  /** The number of months the header's previous/next buttons move in Days view (1, or a whole page of months). */
+  const monthStep = pagedNavigation ? numberOfMonths : 1;
+
+  /** Whether the current mode's value is a `DateRange` (Range, Week, MonthRange and YearRange modes). */
+  const isRangeValueMode = RANGE_VALUE_MODES.includes(mode);
+  /** Whether hovering day cells previews the selection (Range and Week modes), see `getDayState`. */
+  const isDayRangeMode =
+    mode === ChronoPickMode.Range || mode === ChronoPickMode.Week;
+  /** Whether the current mode picks whole months or years (Month, Year, MonthRange, YearRange). */
+  const isPeriodMode = PERIOD_MODES.includes(mode);
+  /** Whether the current mode picks months (Month, MonthRange). */
+  const isMonthMode =
+    mode === ChronoPickMode.Month || mode === ChronoPickMode.MonthRange;
+  /** Whether the current mode picks years (Year, YearRange). */
+  const isYearMode =
+    mode === ChronoPickMode.Year || mode === ChronoPickMode.YearRange;
+
+  /** The view a picker opens on: the Months, Quarters or Years grid in period modes, Days otherwise. */
+  const baseView = isMonthMode
+    ? CalendarView.Months
+    : isYearMode
+      ? CalendarView.Years
+      : mode === ChronoPickMode.Quarter
+        ? CalendarView.Quarters
+        : CalendarView.Days;
+
+  /** The time format appended to the date format when `enableTime` is true, following `hourCycle` and `showSeconds`. */
+  const timeFormat = getDefaultTimeFormat(hourCycle, showSeconds);
+
+  /**
+   * The effective date format string: `dateFormat` (or the mode's default format),
+   * with `timeFormat` appended if `enableTime` is true. Period modes never include time.
+   */
+  const baseDateFormat =
+    dateFormat ??
+    (isMonthMode
+      ? DEFAULT_MONTH_FORMAT
+      : isYearMode
+        ? DEFAULT_YEAR_FORMAT
+        : mode === ChronoPickMode.Quarter
+          ? DEFAULT_QUARTER_FORMAT
+          : DEFAULT_DATE_FORMAT);
+  const effectiveDateFormat =
+    enableTime && !isPeriodMode
+      ? `${baseDateFormat} ${timeFormat}`
+      : baseDateFormat;
 
   /**
    * Memoized callback to calculate the initial date for the calendar view.
@@ -94,8 +359,7 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
   const getInitialDateForView = useCallback((): Date => {
     let candidateDate: Date | null = null;
     // Determine candidate based on current value and mode
-    if (mode === ChronoPickMode.Single && value instanceof Date)
-      candidateDate = value;
+    if (value instanceof Date) candidateDate = value;
     if (
       mode === ChronoPickMode.Multiple &&
       Array.isArray(value) &&
@@ -103,14 +367,14 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
     )
       candidateDate = value[0];
     if (
-      mode === ChronoPickMode.Range &&
+      isRangeValueMode &&
       typeof value === "object" &&
       value &&
       (value as DateRange).from
     )
       candidateDate = (value as DateRange).from as Date;
 
-    candidateDate = candidateDate || new Date(); // Fallback to today if no value provides a hint
+    candidateDate = candidateDate || getNow(); // Fallback to today if no value provides a hint
 
     // Ensure candidate date respects min/max constraints for initial view positioning
     if (minDate && isBeforeDay(candidateDate, minDate)) candidateDate = minDate;
@@ -124,15 +388,73 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       disabledDates,
       0
     );
-  }, [value, mode, minDate, maxDate, disabledDates]);
+  }, [
+    value,
+    mode,
+    isRangeValueMode,
+    minDate,
+    maxDate,
+    disabledDates,
+    getNow,
+  ]);
 
-  /** State: The anchor date determining the current month and year displayed in the calendar. */
-  const [currentMonthDate, setCurrentMonthDate] = useState<Date>(
-    getInitialDateForView()
+  /** State: The anchor date determining the current month and year displayed in the calendar, when `month` is not controlled. */
+  const [monthState, setMonthState] = useState<Date>(getInitialDateForView());
+  /** The anchor date determining the current month and year displayed in the calendar: the `month` prop or the internal state. */
+  const currentMonthDate = monthProp ?? monthState;
+  /** State: The current view of the calendar (Days, Months, or Years), when `view` is not controlled. */
+  const [viewState, setViewState] = useState<CalendarView>(baseView);
+  /** The current view of the calendar: the `view` prop or the internal state. */
+  const currentView = viewProp ?? viewState;
+
+  /**
+   * Refs to the latest displayed month and view and their change callbacks, so the setters below stay
+   * stable and only report actual changes, even when called from callbacks created in earlier renders.
+   */
+  const currentMonthDateRef = useRef(currentMonthDate);
+  currentMonthDateRef.current = currentMonthDate;
+  const currentViewRef = useRef(currentView);
+  currentViewRef.current = currentView;
+  const onMonthChangeRef = useRef(onMonthChange);
+  onMonthChangeRef.current = onMonthChange;
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  const isMonthControlled = monthProp !== undefined;
+  const isViewControlled = viewProp !== undefined;
+
+  /**
+   * Sets the anchor date of the displayed month(s). Stores it when `month` is not controlled,
+   * and calls `onMonthChange` if the displayed month changes.
+   * @param date A date in the first displayed month.
+   */
+  const setCurrentMonthDate = useCallback(
+    (date: Date) => {
+      if (!isMonthControlled) setMonthState(date);
+      const current = currentMonthDateRef.current;
+      if (
+        date.getFullYear() !== current.getFullYear() ||
+        date.getMonth() !== current.getMonth()
+      ) {
+        currentMonthDateRef.current = date;
+        onMonthChangeRef.current?.(date);
+      }
+    },
+    [isMonthControlled]
   );
-  /** State: The current view of the calendar (Days, Months, or Years). */
-  const [currentView, setCurrentView] = useState<CalendarView>(
-    CalendarView.Days
+
+  /**
+   * Sets the current view. Stores it when `view` is not controlled, and calls `onViewChange` if the view changes.
+   * @param view The new view.
+   */
+  const setCurrentView = useCallback(
+    (view: CalendarView) => {
+      if (!isViewControlled) setViewState(view);
+      if (view !== currentViewRef.current) {
+        currentViewRef.current = view;
+        onViewChangeRef.current?.(view);
+      }
+    },
+    [isViewControlled]
   );
   /** State: Temporarily holds the end date during range selection when the user is hovering over dates. */
   const [tempRangeEnd, setTempRangeEnd] = useState<Date | null>(null);
@@ -140,6 +462,14 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
   const [selectedHour, setSelectedHour] = useState<number>(12); // Default to noon
   /** State: The selected minute (0-59) when `enableTime` is true. */
   const [selectedMinute, setSelectedMinute] = useState<number>(0);
+  /** State: The selected second (0-59) when `enableTime` is true. */
+  const [selectedSecond, setSelectedSecond] = useState<number>(0);
+  /** State: The selected time of the range's `to` date in `Range` mode when `enableTime` is true. */
+  const [selectedEndTime, setSelectedEndTime] = useState<TimeValue>({
+    hours: 12,
+    minutes: 0,
+    seconds: 0,
+  });
   /** State: The date element that currently has keyboard focus within the calendar grid. */
   const [focusedDate, setFocusedDateState] = useState<Date>(
     getInitialDateForView()
@@ -151,28 +481,45 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
   const [shiftACycle, setShiftACycle] = useState(0);
 
   /**
-   * Effect to synchronize `currentMonthDate` (calendar view) and time selection state (`selectedHour`, `selectedMinute`)
+   * Effect to synchronize `currentMonthDate` (calendar view) and time selection state (`selectedHour`, `selectedMinute`, `selectedSecond`)
    * when the external `value`, `mode`, or `enableTime` props change.
    * This ensures the calendar view and time inputs reflect the current selection.
    */
   useEffect(() => {
     const initialViewDate = getInitialDateForView();
-    setCurrentMonthDate(initialViewDate);
+    if (!isMonthControlled) setCurrentMonthDate(initialViewDate); // A controlled `month` is only moved by navigation
 
-    if (enableTime) {
-      let timeSourceDate: Date | null = null;
-      if (value instanceof Date) {
-        // Single mode with a date
-        timeSourceDate = value;
-      } else if (mode === ChronoPickMode.Range && (value as DateRange)?.from) {
-        // Range mode, use 'from' if available
-        timeSourceDate = (value as DateRange).from;
+    if (enableTime && mode === ChronoPickMode.Range) {
+      // Range mode: each time follows its own endpoint. A time whose endpoint is not picked yet
+      // is kept, so it applies when the day is picked.
+      const { from, to } = (value as DateRange | null) ?? {};
+      if (from) {
+        setSelectedHour(from.getHours());
+        setSelectedMinute(from.getMinutes());
+        setSelectedSecond(from.getSeconds());
+      }
+      if (to) {
+        setSelectedEndTime({
+          hours: to.getHours(),
+          minutes: to.getMinutes(),
+          seconds: to.getSeconds(),
+        });
       }
+    } else if (enableTime && mode !== ChronoPickMode.Multiple) {
+      // Single mode with a date. In Multiple mode the time for new dates is kept, as each date has its own time.
+      const timeSourceDate = value instanceof Date ? value : null;
       // If a source date for time is found, use its time; otherwise, default to 12:00
       setSelectedHour(timeSourceDate ? timeSourceDate.getHours() : 12);
       setSelectedMinute(timeSourceDate ? timeSourceDate.getMinutes() : 0);
+      setSelectedSecond(timeSourceDate ? timeSourceDate.getSeconds() : 0);
     }
-  }, [value, mode, enableTime, getInitialDateForView]); // `getInitialDateForView` is stable if its deps don't change
+    // `getInitialDateForView` is stable if its deps don't change
+  }, [value, mode, enableTime, getInitialDateForView, isMonthControlled]);
+
+  /** Effect to start on the mode's base view (Days, Months or Years) whenever the picker opens or the `mode` prop changes. */
+  useEffect(() => {
+    if (isPickerVisible) setCurrentView(baseView);
+  }, [baseView, isPickerVisible]);
 
   /**
    * Effect to set the initial `focusedDate` and align `currentMonthDate` (calendar view)
@@ -190,7 +537,7 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       // Determine a candidate for initial focus based on the current `value` prop
       if (value instanceof Date) {
         initialFocusDateCandidate = value;
-      } else if (mode === ChronoPickMode.Range && (value as DateRange)?.from) {
+      } else if (isRangeValueMode && (value as DateRange)?.from) {
         initialFocusDateCandidate = (value as DateRange).from!;
       } else if (Array.isArray(value) && value.length > 0) {
         initialFocusDateCandidate = value[0];
@@ -200,6 +547,14 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
         initialFocusDateCandidate = getInitialDateForView();
       }
 
+      // A controlled `month` stays in place: focus a day of the displayed month(s) instead
+      if (
+        isMonthControlled &&
+        keepMonthInView(initialFocusDateCandidate, currentMonthDate) !==
+          currentMonthDate
+      )
+        initialFocusDateCandidate = currentMonthDate;
+
       // Ensure the candidate is actually focusable (not disabled, within min/max)
       const focusableDate = getFirstFocusableDate(
         initialFocusDateCandidate,
@@ -210,16 +565,10 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       );
       setFocusedDateState(focusableDate);
 
-      // Align calendar view (currentMonthDate) with the month/year of the actually focused date.
+      // Align calendar view (currentMonthDate) so the actually focused date is on a displayed month.
       // This is important if `getFirstFocusableDate` had to jump to a different month/year.
-      if (
-        focusableDate.getFullYear() !== currentMonthDate.getFullYear() ||
-        focusableDate.getMonth() !== currentMonthDate.getMonth()
-      ) {
-        setCurrentMonthDate(
-          new Date(focusableDate.getFullYear(), focusableDate.getMonth(), 1)
-        );
-      }
+      const viewAnchor = keepMonthInView(focusableDate, currentMonthDate);
+      if (viewAnchor !== currentMonthDate) setCurrentMonthDate(viewAnchor);
     }
   }, [
     isPickerVisible,
@@ -232,8 +581,26 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
   ]);
 
   /**
-   * Sets the `focusedDate`. If the new focused date is in a different month or year
-   * than the current view, it also updates `currentMonthDate` to switch the view.
+   * Returns the view anchor (`currentMonthDate`) that keeps `date` on one of the
+   * `numberOfMonths` displayed month panels, moving the view as little as possible.
+   * @param date The date that must be visible.
+   * @param anchor The current view anchor.
+   * @returns `anchor` itself if `date` is already visible, otherwise the 1st of the new first month.
+   */
+  const keepMonthInView = (date: Date, anchor: Date): Date => {
+    const monthOffset =
+      (date.getFullYear() - anchor.getFullYear()) * 12 +
+      date.getMonth() -
+      anchor.getMonth();
+    if (monthOffset < 0) return startOfMonth(date);
+    if (monthOffset >= numberOfMonths)
+      return addMonths(startOfMonth(date), 1 - numberOfMonths);
+    return anchor;
+  };
+
+  /**
+   * Sets the `focusedDate`. If the new focused date is outside the displayed month(s),
+   * it also updates `currentMonthDate` to switch the view.
    * This ensures the calendar always displays the month/year of the focused date.
    * @param date The date to attempt to focus.
    */
@@ -248,14 +615,118 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
     );
     setFocusedDateState(clampedDate);
     // If focusing this date means we should be looking at a different month/year, update the view
-    if (
-      clampedDate.getMonth() !== currentMonthDate.getMonth() ||
-      clampedDate.getFullYear() !== currentMonthDate.getFullYear()
-    ) {
-      setCurrentMonthDate(
-        new Date(clampedDate.getFullYear(), clampedDate.getMonth(), 1)
-      );
-    }
+    const viewAnchor = keepMonthInView(clampedDate, currentMonthDate);
+    if (viewAnchor !== currentMonthDate) setCurrentMonthDate(viewAnchor);
+  };
+
+  /** `minTime` and `maxTime` in seconds since midnight, so inline time objects do not change `isTimeDisabled`. */
+  const minTimeSeconds = minTime ? timeValueToSeconds(minTime) : undefined;
+  const maxTimeSeconds = maxTime ? timeValueToSeconds(maxTime) : undefined;
+
+  /**
+   * Checks whether a time of day cannot be selected: it is outside `minTime`/`maxTime`, matched by
+   * `disabledTimes`, or, combined with `date`, before `minDate` or after `maxDate`.
+   * Always `false` if `enableTime` is false.
+   * @param time - The time of day to check.
+   * @param date - The date the time applies to, or `null` if no date is picked yet.
+   * @returns `true` if the time is disabled, `false` otherwise.
+   */
+  const isTimeDisabled = useCallback(
+    (time: TimeValue, date: Date | null): boolean => {
+      if (!enableTime) return false;
+      const seconds = timeValueToSeconds(time);
+      if (minTimeSeconds !== undefined && seconds < minTimeSeconds) return true;
+      if (maxTimeSeconds !== undefined && seconds > maxTimeSeconds) return true;
+      if (date && (minDate || maxDate)) {
+        const dateTime = setTime(
+          date,
+          time.hours,
+          time.minutes,
+          time.seconds
+        ).getTime();
+        if (minDate && dateTime < minDate.getTime()) return true;
+        if (maxDate && dateTime > maxDate.getTime()) return true;
+      }
+      return !!disabledTimes?.(time, date);
+    },
+    [
+      enableTime,
+      minTimeSeconds,
+      maxTimeSeconds,
+      minDate,
+      maxDate,
+      disabledTimes,
+    ]
+  );
+
+  /**
+   * Whether `isTimeDisabled` can disable the first second of a minute but allow a later one:
+   * a `minTime` or `minDate` between two minutes, or a `disabledTimes` callback, which may check seconds.
+   * Otherwise the time picker reads a whole minute's state from its first second.
+   */
+  const hasSecondConstraints =
+    !!disabledTimes ||
+    (minTimeSeconds !== undefined && minTimeSeconds % 60 !== 0) ||
+    (!!minDate &&
+      (minDate.getSeconds() !== 0 || minDate.getMilliseconds() !== 0));
+
+  /** Memoized times of day offered by the time picker (per `minuteStep` and `secondStep`), in seconds since midnight. */
+  const timeSlots = useMemo(
+    () => getTimeSlots(minuteStep, secondStep, showSeconds),
+    [showSeconds, minuteStep, secondStep]
+  );
+
+  /**
+   * Resolves a requested time of day to an allowed one: the time itself if it is not disabled,
+   * otherwise the nearest time offered by the time picker that is not disabled.
+   * @param time - The requested time of day.
+   * @param date - The date the time applies to, or `null` if no date is picked yet.
+   * @returns The allowed time, or `null` if no time of `date` is allowed.
+   */
+  const snapToAllowedTime = (
+    time: TimeValue,
+    date: Date | null
+  ): TimeValue | null =>
+    findNearestAllowedTime(time, timeSlots, (candidate) =>
+      isTimeDisabled(candidate, date)
+    );
+
+  /**
+   * Sets a time on a date, snapped to the nearest allowed time (see `snapToAllowedTime`).
+   * If no time of the date is allowed, the requested time is used as is.
+   * @param date - The date to set the time on.
+   * @param time - The requested time of day.
+   * @returns A new Date with the (allowed) time.
+   */
+  const setAllowedTime = (date: Date, time: TimeValue): Date => {
+    const allowedTime = snapToAllowedTime(time, date) ?? time;
+    return setTime(
+      date,
+      allowedTime.hours,
+      allowedTime.minutes,
+      allowedTime.seconds
+    );
+  };
+
+  /**
+   * Applies the time picker times to a range in `Range` mode: the start time to `from` and the end time to `to`,
+   * each snapped to an allowed time. If both fall on the same day and the start time is later than the end time, the dates are swapped
+   * so that `from` stays before `to`.
+   * @param range - The range whose days were picked.
+   * @returns A new range with the times applied.
+   */
+  const withRangeTimes = (range: DateRange): DateRange => {
+    const from =
+      range.from &&
+      setAllowedTime(range.from, {
+        hours: selectedHour,
+        minutes: selectedMinute,
+        seconds: selectedSecond,
+      });
+    const to = range.to && setAllowedTime(range.to, selectedEndTime);
+    if (from && to && from.getTime() > to.getTime())
+      return { from: to, to: from };
+    return { from, to };
   };
 
   /**
@@ -297,8 +768,12 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       );
 
       setFocusedDateState(focusTarget); // Update focused date
+      // Move the view by `offset`, as far as needed to keep the focus target on a displayed month
       setCurrentMonthDate(
-        new Date(focusTarget.getFullYear(), focusTarget.getMonth(), 1)
+        keepMonthInView(
+          focusTarget,
+          addMonths(startOfMonth(currentMonthDate), offset)
+        )
       ); // Update calendar view
     },
     [
@@ -360,6 +835,38 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
     ]
   );
 
+  /** Memoized constraints on the end of a range in `Range` mode (see `resolveRangeEnd`). */
+  const rangeEndOptions = useMemo<RangeEndOptions>(
+    () => ({
+      minRangeDays,
+      maxRangeDays,
+      rangeCrossesDisabled,
+      isDisabled: (date) =>
+        isDateDisabled(date, minDate, maxDate, disabledDates),
+    }),
+    [
+      minRangeDays,
+      maxRangeDays,
+      rangeCrossesDisabled,
+      minDate,
+      maxDate,
+      disabledDates,
+    ]
+  );
+
+  /**
+   * Resolves the day that ends a range started at `from` when `picked` is picked in `Range` mode,
+   * per `minRangeDays`, `maxRangeDays` and `rangeCrossesDisabled` (see `resolveRangeEnd`).
+   * @param from - The start of the range.
+   * @param picked - The picked day.
+   * @returns The day ending the range (truncated before a disabled day with "truncate"), or `null` if `picked` cannot end the range.
+   */
+  const getRangeEnd = useCallback(
+    (from: Date, picked: Date): Date | null =>
+      resolveRangeEnd(from, picked, rangeEndOptions),
+    [rangeEndOptions]
+  );
+
   /**
    * Handles click events on a day cell in the DayView.
    * Updates the `value` prop based on the current `mode` (single, multiple, range).
@@ -373,7 +880,7 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       let newSelectedDate: SelectedDateType = null;
       let finalDay = day;
 
-      // Determine the hour/minute to apply, prioritizing existing time in `value` if single mode, else from time picker state.
+      // Determine the time to apply, prioritizing existing time in `value` if single mode, else from time picker state.
       const currentHourForSelection =
         value instanceof Date && mode === ChronoPickMode.Single
           ? value.getHours()
@@ -382,14 +889,18 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
         value instanceof Date && mode === ChronoPickMode.Single
           ? value.getMinutes()
           : selectedMinute;
+      const currentSecondForSelection =
+        value instanceof Date && mode === ChronoPickMode.Single
+          ? value.getSeconds()
+          : selectedSecond;
 
-      // If time is enabled, set the time on the selected day
+      // If time is enabled, set the time on the selected day, snapped to a time allowed on that day
       if (enableTime) {
-        finalDay = setTime(
-          day,
-          currentHourForSelection,
-          currentMinuteForSelection
-        );
+        finalDay = setAllowedTime(day, {
+          hours: currentHourForSelection,
+          minutes: currentMinuteForSelection,
+          seconds: currentSecondForSelection,
+        });
       }
 
       // Logic for updating selected date based on mode
@@ -417,8 +928,8 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
                 )
             );
           } else {
-            // If not selected, add it
-            newSelectedDate = [...currentDates, finalDay];
+            // If not selected, add it. Entries on the same day with different times are kept separately.
+            newSelectedDate = sortDates([...currentDates, finalDay]);
           }
           break;
         case ChronoPickMode.Range:
@@ -427,24 +938,37 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
               ? value
               : { from: null, to: null }
           ) as DateRange;
-          if (!currentRange.from || currentRange.to) {
-            // If no 'from' date or if 'to' is already set (i.e., starting a new range)
-            newSelectedDate = { from: finalDay, to: null };
+          const isStartingNewRange = !currentRange.from || !!currentRange.to;
+          let rangeEnd = day;
+          if (
+            currentRange.from &&
+            !currentRange.to &&
+            !isSameDay(day, currentRange.from)
+          ) {
+            // Apply the range length and disabled days constraints to the end of the range
+            const resolvedEnd = getRangeEnd(currentRange.from, day);
+            if (!resolvedEnd) return; // The day cannot end the range
+            rangeEnd = resolvedEnd;
+          }
+          // Starts a new range, clears it (clicking 'from' again), or completes it with 'from' before 'to'.
+          // The days are picked first; the start and end times are then applied to their endpoints.
+          newSelectedDate = getNextRangeSelection(currentRange, rangeEnd);
+          if (enableTime) newSelectedDate = withRangeTimes(newSelectedDate);
+          if (isStartingNewRange) {
             setTempRangeEnd(null); // Clear any temporary hover state
-          } else {
-            // 'from' is set, and 'to' is not (i.e., completing the range)
-            if (isSameDay(currentRange.from, finalDay)) {
-              // Clicking 'from' again clears it (or could toggle to single point)
-              newSelectedDate = { from: null, to: null };
-            } else if (isBeforeDay(finalDay, currentRange.from)) {
-              // Ensure 'from' is always before 'to'
-              newSelectedDate = { from: finalDay, to: currentRange.from };
-            } else {
-              newSelectedDate = { from: currentRange.from, to: finalDay };
-            }
-            if (!enableTime) onVisibilityChange(false); // Close picker after range selection if no time
+          } else if (!enableTime) {
+            onVisibilityChange(false); // Close picker after range selection if no time
           }
           break;
+        case ChronoPickMode.Week:
+          // Select the whole week containing the clicked day
+          newSelectedDate = {
+            from: startOfWeek(day, firstDayOfWeek),
+            to: endOfWeek(day, firstDayOfWeek),
+          };
+          setTempRangeEnd(null);
+          onVisibilityChange(false);
+          break;
       }
       onChange(newSelectedDate); // Call the onChange prop with the new selected date(s)
       setFocusedDate(finalDay); // Set focus to the clicked day
@@ -460,18 +984,203 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       enableTime,
       selectedHour,
       selectedMinute,
+      selectedSecond,
+      selectedEndTime,
+      isTimeDisabled,
+      timeSlots,
+      firstDayOfWeek,
+      getRangeEnd,
     ]
   );
 
+  /**
+   * Handles a click on a week number in the DayView.
+   * In `Week` mode the week is selected; in `Range` mode the range is set to span the week.
+   * Other modes ignore week number clicks.
+   * @param weekStart - The first day of the clicked week.
+   */
+  const handleWeekSelect = useCallback(
+    (weekStart: Date) => {
+      if (mode === ChronoPickMode.Week) {
+        handleDayClick(
+          getFirstFocusableDate(weekStart, minDate, maxDate, disabledDates, 1)
+        );
+        return;
+      }
+      if (mode !== ChronoPickMode.Range) return;
+
+      const from = startOfWeek(weekStart, firstDayOfWeek);
+      const to = new Date(from);
+      to.setDate(from.getDate() + 6);
+      onChange(enableTime ? withRangeTimes({ from, to }) : { from, to });
+      setTempRangeEnd(null);
+      setFocusedDate(from);
+      if (!enableTime) onVisibilityChange(false);
+    },
+    [
+      mode,
+      handleDayClick,
+      onChange,
+      minDate,
+      maxDate,
+      disabledDates,
+      firstDayOfWeek,
+      enableTime,
+      selectedHour,
+      selectedMinute,
+      selectedSecond,
+      selectedEndTime,
+      isTimeDisabled,
+      timeSlots,
+      onVisibilityChange,
+    ]
+  );
+
+  /**
+   * Memoized presets for the presets sidebar, resolved against today's date and the date constraints.
+   * Ranges are clamped to `minDate`/`maxDate`, then checked and truncated like a range picked in the calendar
+   * (see `getRangeEnd`); Multiple values drop disabled days. A preset is disabled if it does not apply to the mode
+   * or nothing selectable remains, and active if it matches the current `value`.
+   */
+  const presetItems = useMemo(() => {
+    const now = getNow();
+    const context = {
+      today: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+      mode,
+      firstDayOfWeek,
+      fiscalYearStartMonth,
+    };
+    const startOfDay = (date: Date) =>
+      new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const isDisabled = (date: Date) =>
+      isDateDisabled(date, minDate, maxDate, disabledDates);
+
+    /** Resolves a preset to a selectable value, or `null` if it is not selectable. */
+    const resolvePreset = (preset: ChronoPickPreset): SelectedDateType => {
+      const resolved = preset.resolve(context);
+      if (resolved instanceof Date) return isDisabled(resolved) ? null : resolved;
+      if (Array.isArray(resolved)) {
+        const selectable = resolved.filter((date) => !isDisabled(date));
+        return selectable.length > 0 ? selectable : null;
+      }
+      if (!resolved?.from || !resolved.to) return null;
+      const from =
+        minDate && isBeforeDay(resolved.from, minDate)
+          ? startOfDay(minDate)
+          : resolved.from;
+      const to =
+        maxDate && isAfterDay(resolved.to, maxDate)
+          ? startOfDay(maxDate)
+          : resolved.to;
+      if (isAfterDay(from, to) || isDisabled(from)) return null;
+      // Apply the same length and crossing rules as picking the range in the calendar
+      const end = getRangeEnd(from, to);
+      if (!end || isDisabled(end)) return null;
+      return { from, to: end };
+    };
+
+    return (presets ?? []).map((preset) => {
+      const presetValue = resolvePreset(preset);
+      return {
+        label: preset.label,
+        value: presetValue,
+        isDisabled: presetValue === null,
+        isActive: presetValue !== null && isSameSelection(value, presetValue),
+      };
+    });
+  }, [
+    presets,
+    value,
+    mode,
+    getNow,
+    firstDayOfWeek,
+    fiscalYearStartMonth,
+    minDate,
+    maxDate,
+    disabledDates,
+    getRangeEnd,
+  ]);
+
+  /**
+   * Handles a click on a preset in the presets sidebar: selects its resolved value,
+   * moves the calendar to it and closes the picker (unless time selection is enabled).
+   * @param presetValue - The resolved value of the preset (see `presetItems`).
+   */
+  const handlePresetSelect = (presetValue: SelectedDateType) => {
+    if (presetValue === null) return;
+    const applyTime = (date: Date) =>
+      enableTime
+        ? setAllowedTime(date, {
+            hours: selectedHour,
+            minutes: selectedMinute,
+            seconds: selectedSecond,
+          })
+        : date;
+
+    let nextValue: SelectedDateType;
+    let firstDate: Date | null;
+    if (presetValue instanceof Date) {
+      nextValue = firstDate = applyTime(presetValue);
+    } else if (Array.isArray(presetValue)) {
+      nextValue = presetValue.map(applyTime);
+      firstDate = nextValue[0];
+    } else {
+      nextValue =
+        enableTime && mode === ChronoPickMode.Range
+          ? withRangeTimes(presetValue)
+          : {
+              from: presetValue.from && applyTime(presetValue.from),
+              to: presetValue.to && applyTime(presetValue.to),
+            };
+      firstDate = nextValue.from;
+    }
+
+    onChange(nextValue);
+    setTempRangeEnd(null);
+    if (firstDate) setFocusedDate(firstDate);
+    if (!enableTime) onVisibilityChange(false);
+  };
+
+  /**
+   * Selects a whole period (month or year) in the period modes and closes the picker when done.
+   * - `Month` / `Year`: the start of the period is selected.
+   * - `MonthRange` / `YearRange`: follows the two-click range flow of `getNextRangeSelection`;
+   *   the range's `to` is extended to the end of its period.
+   * @param periodStart - The first day of the picked month or year.
+   */
+  const selectPeriod = (periodStart: Date) => {
+    const periodEnd = isMonthMode ? endOfMonth : endOfYear;
+    if (mode === ChronoPickMode.Month || mode === ChronoPickMode.Year) {
+      onChange(periodStart);
+      onVisibilityChange(false);
+    } else {
+      const currentRange = (
+        typeof value === "object" && value ? value : { from: null, to: null }
+      ) as DateRange;
+      const nextRange = getNextRangeSelection(currentRange, periodStart);
+      if (nextRange.to) {
+        nextRange.to = periodEnd(nextRange.to);
+        onVisibilityChange(false);
+      }
+      onChange(nextRange);
+      setTempRangeEnd(null);
+    }
+    setFocusedDateState(periodStart);
+  };
+
   /**
    * Handles selection of a month from the "Months" view.
-   * Updates `currentMonthDate` and switches view back to "Days".
+   * In Month modes the month is selected; otherwise `currentMonthDate` is updated and the view switches back to "Days".
    * @param monthIndex - The 0-indexed month number (0 for January, etc.).
    */
   const handleMonthSelect = useCallback(
     (monthIndex: number) => {
       // Create a date representing the 1st of the selected month in the focused year
       const newDate = new Date(focusedDate.getFullYear(), monthIndex, 1);
+      if (isMonthMode) {
+        selectPeriod(newDate);
+        return;
+      }
       // Find the first focusable day in that month
       const focusTarget = getFirstFocusableDate(
         newDate,
@@ -487,18 +1196,32 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       setFocusedDateState(focusTarget);
       setCurrentView(CalendarView.Days); // Switch to Day view
     },
-    [focusedDate, minDate, maxDate, disabledDates]
+    [focusedDate, minDate, maxDate, disabledDates, isMonthMode, mode, value]
   );
 
   /**
    * Handles selection of a year from the "Years" view.
-   * Updates `currentMonthDate` (to that year, keeping current month) and switches view to "Months".
+   * In Year modes the year is selected; otherwise `currentMonthDate` is updated
+   * (to that year, keeping current month) and the view switches to "Months".
    * @param year - The selected full year (e.g., 2023).
    */
   const handleYearSelect = useCallback(
     (year: number) => {
+      if (isYearMode) {
+        selectPeriod(new Date(year, 0, 1));
+        return;
+      }
+      // Quarter mode drills down to the quarters of the fiscal year starting in the selected year
+      const nextView =
+        mode === ChronoPickMode.Quarter
+          ? CalendarView.Quarters
+          : CalendarView.Months;
+      const anchorMonth =
+        mode === ChronoPickMode.Quarter
+          ? fiscalYearStartMonth
+          : focusedDate.getMonth();
       // Create a date representing the 1st of the focused month in the selected year
-      const newDate = new Date(year, focusedDate.getMonth(), 1);
+      const newDate = new Date(year, anchorMonth, 1);
       const focusTarget = getFirstFocusableDate(
         newDate,
         minDate,
@@ -510,27 +1233,131 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
         new Date(focusTarget.getFullYear(), focusTarget.getMonth(), 1)
       );
       setFocusedDateState(focusTarget);
+      setCurrentView(nextView); // Switch to Month (or Quarter) view
+    },
+    [
+      focusedDate,
+      minDate,
+      maxDate,
+      disabledDates,
+      isYearMode,
+      mode,
+      value,
+      fiscalYearStartMonth,
+    ]
+  );
+
+  /**
+   * Handles selection of a quarter from the "Quarters" view.
+   * In Quarter mode the quarter is selected as a `DateRange` and the picker closes;
+   * otherwise `currentMonthDate` moves to the quarter's first month and the view switches to "Months".
+   * @param quarterStart - The first day of the selected quarter.
+   */
+  const handleQuarterSelect = useCallback(
+    (quarterStart: Date) => {
+      if (mode === ChronoPickMode.Quarter) {
+        onChange({
+          from: startOfQuarter(quarterStart, fiscalYearStartMonth),
+          to: endOfQuarter(quarterStart, fiscalYearStartMonth),
+        });
+        setFocusedDateState(quarterStart);
+        onVisibilityChange(false);
+        return;
+      }
+      const focusTarget = getFirstFocusableDate(
+        quarterStart,
+        minDate,
+        maxDate,
+        disabledDates,
+        1
+      );
+      setCurrentMonthDate(
+        new Date(focusTarget.getFullYear(), focusTarget.getMonth(), 1)
+      );
+      setFocusedDateState(focusTarget);
       setCurrentView(CalendarView.Months); // Switch to Month view
     },
-    [focusedDate, minDate, maxDate, disabledDates]
+    [
+      mode,
+      onChange,
+      onVisibilityChange,
+      fiscalYearStartMonth,
+      minDate,
+      maxDate,
+      disabledDates,
+    ]
   );
 
   /**
-   * Handles changes to the time (hour or minute) from the TimePicker component.
-   * Updates `selectedHour` and `selectedMinute` state and calls `onChange` with the new date-time.
-   * @param hour - The new hour (optional).
+   * Sets the time of one endpoint of the range in `Range` mode and calls `onChange`.
+   * If the change would put `from` after `to`, the other endpoint is moved along to the same date-time.
+   * Nothing is emitted if the endpoint is not picked yet (its time is applied when the day is picked)
+   * or if the new date is disabled.
+   * @param endpoint - The endpoint whose time changed (`from` for the start, `to` for the end).
+   * @param time - The new time of the endpoint.
+   */
+  const setRangeTime = (endpoint: keyof DateRange, time: TimeValue) => {
+    const range = value as DateRange | null;
+    const endpointDate = range?.[endpoint];
+    if (!range || !endpointDate) return;
+
+    const newDate = setTime(
+      endpointDate,
+      time.hours,
+      time.minutes,
+      time.seconds
+    );
+    if (isDateDisabled(newDate, minDate, maxDate, disabledDates)) return;
+
+    let { from, to }: DateRange = { ...range, [endpoint]: newDate };
+    if (from && to && from.getTime() > to.getTime()) {
+      // Keep `from` before `to` by moving the other endpoint along
+      if (endpoint === "from") to = new Date(from);
+      else from = new Date(to);
+    }
+    onChange({ from, to });
+    setFocusedDate(newDate); // Focus the date whose time was changed
+  };
+
+  /**
+   * Handles changes to the time (hour, minute or second) from the TimePicker component.
+   * The requested time is snapped to the nearest allowed time (see `snapToAllowedTime`), then
+   * `selectedHour`, `selectedMinute` and `selectedSecond` are updated and `onChange` is called with the new date-time.
+   * In `Range` mode this is the start time, applied to `from`.
+   * @param hour - The new hour (0-23, optional).
    * @param minute - The new minute (optional).
+   * @param second - The new second (optional).
    */
   const handleTimeChange = useCallback(
-    (hour?: number, minute?: number) => {
-      const newHour = hour !== undefined ? hour : selectedHour;
-      const newMinute = minute !== undefined ? minute : selectedMinute;
-      setSelectedHour(newHour);
-      setSelectedMinute(newMinute);
+    (hour?: number, minute?: number, second?: number) => {
+      // The date the time applies to: the selected date in Single mode, `from` in Range mode
+      const timeDate =
+        mode === ChronoPickMode.Single && value instanceof Date
+          ? value
+          : mode === ChronoPickMode.Range
+            ? ((value as DateRange | null)?.from ?? null)
+            : null;
+      const newTime = snapToAllowedTime(
+        {
+          hours: hour !== undefined ? hour : selectedHour,
+          minutes: minute !== undefined ? minute : selectedMinute,
+          seconds: second !== undefined ? second : selectedSecond,
+        },
+        timeDate
+      );
+      if (!newTime) return; // No time of the date is allowed
+      setSelectedHour(newTime.hours);
+      setSelectedMinute(newTime.minutes);
+      setSelectedSecond(newTime.seconds);
 
       // Update the `value` prop based on the mode and new time
       if (mode === ChronoPickMode.Single && value instanceof Date) {
-        const newDateWithNewTime = setTime(new Date(value), newHour, newMinute);
+        const newDateWithNewTime = setTime(
+          new Date(value),
+          newTime.hours,
+          newTime.minutes,
+          newTime.seconds
+        );
         // Only update if the new date-time is not disabled
         if (
           !isDateDisabled(newDateWithNewTime, minDate, maxDate, disabledDates)
@@ -538,58 +1365,120 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
           onChange(newDateWithNewTime);
           setFocusedDate(newDateWithNewTime);
         }
-      } else if (
-        mode === ChronoPickMode.Range &&
-        (value as DateRange)?.from &&
-        !(value as DateRange)?.to
-      ) {
-        // If only 'from' is selected in range mode, update 'from' with new time
-        const currentFrom = (value as DateRange).from!;
-        const newFromDateWithTime = setTime(
-          new Date(currentFrom),
-          newHour,
-          newMinute
-        );
-        if (
-          !isDateDisabled(newFromDateWithTime, minDate, maxDate, disabledDates)
-        ) {
-          onChange({ from: newFromDateWithTime, to: null });
-          setFocusedDate(newFromDateWithTime);
-        }
-      } else if (
-        mode === ChronoPickMode.Range &&
-        (value as DateRange)?.from &&
-        (value as DateRange)?.to
-      ) {
-        // If range is complete, update 'to' with new time (conventionally, time is set on the second selection)
-        const currentTo = (value as DateRange).to!;
-        const newToDateWithTime = setTime(
-          new Date(currentTo),
-          newHour,
-          newMinute
-        );
-        if (
-          !isDateDisabled(newToDateWithTime, minDate, maxDate, disabledDates)
-        ) {
-          onChange({ from: (value as DateRange).from, to: newToDateWithTime });
-          setFocusedDate(newToDateWithTime); // Focus the date whose time was changed
-        }
+      } else if (mode === ChronoPickMode.Range) {
+        setRangeTime("from", newTime);
       }
-      // Note: Multiple mode with time might need specific logic if time per date is desired.
-      // Current implementation implies time is global or applies to the latest action.
+      // In Multiple mode this is the time applied to newly added dates; each selected date
+      // has its own time, edited with `handleDateTimeChange`.
     },
     [
       selectedHour,
       selectedMinute,
+      selectedSecond,
       value,
       mode,
       onChange,
       minDate,
       maxDate,
       disabledDates,
+      isTimeDisabled,
+      timeSlots,
     ]
   );
 
+  /**
+   * Handles changes to the end time from the "End" TimePicker in `Range` mode.
+   * The requested time is snapped to the nearest allowed time, then `selectedEndTime` is updated
+   * and `onChange` is called with the new `to` date-time.
+   * @param hour - The new hour (0-23, optional).
+   * @param minute - The new minute (optional).
+   * @param second - The new second (optional).
+   */
+  const handleEndTimeChange = useCallback(
+    (hour?: number, minute?: number, second?: number) => {
+      const newEndTime = snapToAllowedTime(
+        {
+          hours: hour ?? selectedEndTime.hours,
+          minutes: minute ?? selectedEndTime.minutes,
+          seconds: second ?? selectedEndTime.seconds,
+        },
+        (value as DateRange | null)?.to ?? null
+      );
+      if (!newEndTime) return; // No time of the date is allowed
+      setSelectedEndTime(newEndTime);
+      if (mode === ChronoPickMode.Range) setRangeTime("to", newEndTime);
+    },
+    [
+      selectedEndTime,
+      value,
+      mode,
+      onChange,
+      minDate,
+      maxDate,
+      disabledDates,
+      isTimeDisabled,
+      timeSlots,
+    ]
+  );
+
+  /**
+   * Handles changes to the time of one selected date in `Multiple` mode (from the selected dates list).
+   * The requested time is snapped to the nearest allowed time of the date.
+   * If the new date-time equals another selected entry, the two are merged.
+   * @param date - The selected date whose time changed.
+   * @param hour - The new hour (0-23, optional).
+   * @param minute - The new minute (optional).
+   * @param second - The new second (optional).
+   */
+  const handleDateTimeChange = useCallback(
+    (date: Date, hour?: number, minute?: number, second?: number) => {
+      if (!Array.isArray(value)) return;
+      const newTime = snapToAllowedTime(
+        {
+          hours: hour ?? date.getHours(),
+          minutes: minute ?? date.getMinutes(),
+          seconds: second ?? date.getSeconds(),
+        },
+        date
+      );
+      if (!newTime) return; // No time of the date is allowed
+      const newDate = setTime(
+        date,
+        newTime.hours,
+        newTime.minutes,
+        newTime.seconds
+      );
+      if (isDateDisabled(newDate, minDate, maxDate, disabledDates)) return;
+
+      const otherDates = value.filter(
+        (d) =>
+          d.getTime() !== date.getTime() && d.getTime() !== newDate.getTime()
+      );
+      onChange(sortDates([...otherDates, newDate]));
+    },
+    [
+      value,
+      onChange,
+      minDate,
+      maxDate,
+      disabledDates,
+      isTimeDisabled,
+      timeSlots,
+    ]
+  );
+
+  /**
+   * Removes one selected date in `Multiple` mode (the remove button of its chip in the selected dates list).
+   * @param date - The selected date to remove.
+   */
+  const handleDateRemove = useCallback(
+    (date: Date) => {
+      if (!Array.isArray(value)) return;
+      onChange(value.filter((d) => d.getTime() !== date.getTime()));
+    },
+    [value, onChange]
+  );
+
   /**
    * Handles keyboard navigation within the calendar grids (Days, Months, Years).
    * @param event - The React keyboard event.
@@ -614,6 +1503,11 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
         case CalendarView.Months:
           handleMonthSelect(focusedDate.getMonth());
           break;
+        case CalendarView.Quarters:
+          handleQuarterSelect(
+            startOfQuarter(focusedDate, fiscalYearStartMonth)
+          );
+          break;
         case CalendarView.Years:
           handleYearSelect(focusedDate.getFullYear());
           break;
@@ -715,18 +1609,20 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
             }
           }
         } else {
-          // No Shift key: standard day/week/month navigation
+          // No Shift key: standard day/week/month navigation.
+          // In Week mode, Left/Right move by a whole week, like Up/Down.
+          const horizontalStep = mode === ChronoPickMode.Week ? 7 : 1;
           switch (key) {
             case "ArrowLeft":
               newFocusedDateCandidate.setDate(
-                newFocusedDateCandidate.getDate() - 1
+                newFocusedDateCandidate.getDate() - horizontalStep
               );
               handled = true;
               intendedDirection = -1;
               break;
             case "ArrowRight":
               newFocusedDateCandidate.setDate(
-                newFocusedDateCandidate.getDate() + 1
+                newFocusedDateCandidate.getDate() + horizontalStep
               );
               handled = true;
               intendedDirection = 1;
@@ -752,12 +1648,18 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
               intendedDirection = 1;
               break;
             case "Home":
-              newFocusedDateCandidate = startOfWeek(newFocusedDateCandidate);
+              newFocusedDateCandidate = startOfWeek(
+                newFocusedDateCandidate,
+                firstDayOfWeek
+              );
               handled = true;
               intendedDirection = 1;
               break; // Search forward from start of week
             case "End":
-              newFocusedDateCandidate = endOfWeek(newFocusedDateCandidate);
+              newFocusedDateCandidate = endOfWeek(
+                newFocusedDateCandidate,
+                firstDayOfWeek
+              );
               handled = true;
               intendedDirection = -1;
               break; // Search backward from end of week
@@ -825,6 +1727,60 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
           newFocusedDateCandidate.setDate(1); // Always focus 1st of the month in Month view
         }
         break;
+      case CalendarView.Quarters: {
+        // Quarters are laid out in two rows of two; focus is on the 1st of the quarter's first month
+        const fiscalYearStart = startOfFiscalYear(
+          newFocusedDateCandidate,
+          fiscalYearStartMonth
+        );
+        const quarterStart = startOfQuarter(
+          newFocusedDateCandidate,
+          fiscalYearStartMonth
+        );
+        switch (key) {
+          case "ArrowLeft":
+            newFocusedDateCandidate = addMonths(quarterStart, -3);
+            handled = true;
+            intendedDirection = -1;
+            break;
+          case "ArrowRight":
+            newFocusedDateCandidate = addMonths(quarterStart, 3);
+            handled = true;
+            intendedDirection = 1;
+            break;
+          case "ArrowUp":
+            newFocusedDateCandidate = addMonths(quarterStart, -6);
+            handled = true;
+            intendedDirection = -1;
+            break; // Move up one row
+          case "ArrowDown":
+            newFocusedDateCandidate = addMonths(quarterStart, 6);
+            handled = true;
+            intendedDirection = 1;
+            break; // Move down one row
+          case "PageUp":
+            newFocusedDateCandidate = addYears(quarterStart, -1);
+            handled = true;
+            intendedDirection = -1;
+            break; // Previous fiscal year
+          case "PageDown":
+            newFocusedDateCandidate = addYears(quarterStart, 1);
+            handled = true;
+            intendedDirection = 1;
+            break; // Next fiscal year
+          case "Home":
+            newFocusedDateCandidate = fiscalYearStart;
+            handled = true;
+            intendedDirection = 1;
+            break; // First quarter
+          case "End":
+            newFocusedDateCandidate = addMonths(fiscalYearStart, 9);
+            handled = true;
+            intendedDirection = -1;
+            break; // Last quarter
+        }
+        break;
+      }
       case CalendarView.Years:
         let currentYear = newFocusedDateCandidate.getFullYear();
         switch (key) {
@@ -907,20 +1863,28 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       let needsMonthDateUpdate = false;
 
       if (currentViewArg === CalendarView.Days) {
-        // In Days view, update if month or year of focus changed
+        // In Days view, update if focus moved off the displayed month panel(s)
+        newCurrentMonthViewAnchor = keepMonthInView(
+          trulyFocusableDate,
+          currentMonthDate
+        );
+        needsMonthDateUpdate = newCurrentMonthViewAnchor !== currentMonthDate;
+      } else if (currentViewArg === CalendarView.Months) {
+        // In Months view, update if year of focus changed
         if (
-          newCurrentMonthViewAnchor.getMonth() !==
-            currentMonthDate.getMonth() ||
           newCurrentMonthViewAnchor.getFullYear() !==
-            currentMonthDate.getFullYear()
+          currentMonthDate.getFullYear()
         ) {
           needsMonthDateUpdate = true;
         }
-      } else if (currentViewArg === CalendarView.Months) {
-        // In Months view, update if year of focus changed
+      } else if (currentViewArg === CalendarView.Quarters) {
+        // In Quarters view, update if the fiscal year of focus changed
         if (
-          newCurrentMonthViewAnchor.getFullYear() !==
-          currentMonthDate.getFullYear()
+          startOfFiscalYear(
+            trulyFocusableDate,
+            fiscalYearStartMonth
+          ).getTime() !==
+          startOfFiscalYear(currentMonthDate, fiscalYearStartMonth).getTime()
         ) {
           needsMonthDateUpdate = true;
         }
@@ -946,10 +1910,24 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
     return handled; // Return true if key was handled, false otherwise (for event.preventDefault in parent)
   };
 
+  /** Memoized selected dates of `Multiple` mode in chronological order, listed with their times when `enableTime` is true. */
+  const selectedDates = useMemo(
+    () =>
+      mode === ChronoPickMode.Multiple && Array.isArray(value)
+        ? sortDates(value)
+        : [],
+    [mode, value]
+  );
+
   /** Memoized display value for the input field, formatted according to mode and `effectiveDateFormat`. */
   const displayValue = useMemo(() => {
-    if (mode === ChronoPickMode.Single && value instanceof Date) {
-      return formatDate(value, effectiveDateFormat, enableTime);
+    if (
+      (mode === ChronoPickMode.Single ||
+        mode === ChronoPickMode.Month ||
+        mode === ChronoPickMode.Year) &&
+      value instanceof Date
+    ) {
+      return formatDate(value, effectiveDateFormat, enableTime, formatOptions);
     }
     if (
       mode === ChronoPickMode.Multiple &&
@@ -957,13 +1935,23 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
       value.length > 0
     ) {
       // Sort dates before joining for consistent display if order isn't guaranteed
-      const sortedDates = [...value].sort((a, b) => a.getTime() - b.getTime());
-      return sortedDates
-        .map((d) => formatDate(d, effectiveDateFormat, enableTime))
+      return selectedDates
+        .map((d) =>
+          formatDate(d, effectiveDateFormat, enableTime, formatOptions)
+        )
         .join(", ");
     }
-    if (mode === ChronoPickMode.Range && typeof value === "object" && value) {
+    if (isRangeValueMode && typeof value === "object" && value) {
       const range = value as DateRange;
+      if (mode === ChronoPickMode.Quarter && range.from) {
+        // A quarter is shown by its start, e.g. "Q1 2024"
+        return formatDate(
+          range.from,
+          effectiveDateFormat,
+          enableTime,
+          formatOptions
+        );
+      }
       if (range.from && range.to) {
         // Ensure from is before to for display consistency
         const fromDate = isBeforeDay(range.from, range.to)
@@ -975,20 +1963,526 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
         return `${formatDate(
           fromDate,
           effectiveDateFormat,
-          enableTime
-        )} to ${formatDate(toDate, effectiveDateFormat, enableTime)}`;
+          enableTime,
+          formatOptions
+        )} to ${formatDate(toDate, effectiveDateFormat, enableTime, formatOptions)}`;
       }
       if (range.from) {
         // If only 'from' is selected
         return `${formatDate(
           range.from,
           effectiveDateFormat,
-          enableTime
+          enableTime,
+          formatOptions
         )} to ...`;
       }
     }
     return ""; // Default empty string if no value or not a recognized format
-  }, [value, mode, effectiveDateFormat, enableTime]);
+  }, [
+    value,
+    selectedDates,
+    isRangeValueMode,
+    mode,
+    effectiveDateFormat,
+    enableTime,
+    formatOptions,
+  ]);
+
+  /**
+   * Converts a selected date to the string submitted with a form (see the `name` prop): the result
+   * of `serializeDate` if given, otherwise ISO-8601, i.e. "YYYY-MM-DD", or the full date and time
+   * in UTC (`toISOString`) when `enableTime` is true.
+   * @param date - The selected date, as a wall-clock date in `timeZone`.
+   * @returns The serialized date.
+   */
+  const serializeDate = useCallback(
+    (date: Date): string => {
+      const instant = timeZone
+        ? (fromZonedTime(date, timeZone, timeZoneDisambiguation) ?? date)
+        : date;
+      if (serializeDateProp) return serializeDateProp(instant);
+      return enableTime ? instant.toISOString() : formatDate(date, "YYYY-MM-DD");
+    },
+    [serializeDateProp, timeZone, timeZoneDisambiguation, enableTime]
+  );
+
+  /**
+   * Memoized validation error of the selected value, or `null` if it is valid. The built-in checks
+   * (see `validateSelection`) run first; if they pass, the `validate` prop receives the value as instants.
+   */
+  const validationError = useMemo((): ChronoPickValidationError | null => {
+    const builtInError = validateSelection(committedValue, {
+      mode,
+      required,
+      minDate,
+      maxDate,
+      disabledDates,
+      enableTime,
+      minRangeDays,
+      maxRangeDays,
+      fiscalYearStartMonth,
+      formatDate: (date) =>
+        formatDate(date, effectiveDateFormat, enableTime, formatOptions),
+    });
+    if (builtInError) {
+      // Report the offending date as an instant, like `value`
+      return builtInError.date && timeZone
+        ? {
+            ...builtInError,
+            date:
+              fromZonedTime(builtInError.date, timeZone) ?? builtInError.date,
+          }
+        : builtInError;
+    }
+    const customError = validate?.(sourceValue);
+    if (!customError) return null;
+    return typeof customError === "string"
+      ? { code: "custom", message: customError }
+      : customError;
+  }, [
+    committedValue,
+    sourceValue,
+    mode,
+    required,
+    minDate,
+    maxDate,
+    disabledDates,
+    enableTime,
+    minRangeDays,
+    maxRangeDays,
+    fiscalYearStartMonth,
+    effectiveDateFormat,
+    formatOptions,
+    timeZone,
+    validate,
+  ]);
+
+  /** Ref to the latest `onValidate`, so a new callback on every render does not re-report the same result. */
+  const onValidateRef = useRef(onValidate);
+  onValidateRef.current = onValidate;
+  /** A key identifying the validation result, so `onValidate` is only called when it changes. */
+  const validationKey = validationError
+    ? `${validationError.code}|${validationError.message}|${validationError.date?.getTime()}`
+    : "";
+
+  // Report the validation result on mount and whenever it changes
+  useEffect(() => {
+    onValidateRef.current?.(validationError);
+  }, [validationKey]);
+
+  /**
+   * Clears the selection, emitting the mode's empty value (`null`, `[]` or `{ from: null, to: null }`).
+   * Used by the clear button, the Delete/Backspace shortcut and the footer's "Clear" action.
+   */
+  const handleClear = useCallback(() => {
+    setTempRangeEnd(null);
+    onChange(getEmptySelection(mode));
+  }, [mode, onChange]);
+
+  /**
+   * Commits the draft of `confirmMode` via `onChange` (if anything was changed) and closes the picker.
+   * Used by the footer's "Apply" action.
+   */
+  const applyDraft = useCallback(() => {
+    if (draftValue !== undefined) emitChange(draftValue);
+    setDraftValue(undefined);
+    onVisibilityChangeProp(false);
+  }, [draftValue, emitChange, onVisibilityChangeProp]);
+
+  /**
+   * Discards the draft of `confirmMode`, restoring the committed value, and closes the picker.
+   * Used by the footer's "Cancel" action and Escape.
+   */
+  const cancelDraft = useCallback(() => {
+    setTempRangeEnd(null);
+    setDraftValue(undefined);
+    onVisibilityChangeProp(false);
+  }, [onVisibilityChangeProp]);
+
+  /**
+   * Handles the footer's "Today" action of `confirmMode`: selects today in `Single` mode, with the
+   * selected time as a day click would, and otherwise shows and focuses today on the mode's base view.
+   */
+  const handleTodayClick = () => {
+    const now = getNow();
+    const todayStart = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate()
+    );
+    if (
+      mode === ChronoPickMode.Single &&
+      !isDateDisabled(todayStart, minDate, maxDate, disabledDates)
+    ) {
+      handleDayClick(todayStart);
+      return;
+    }
+    setCurrentView(baseView);
+    setFocusedDate(todayStart);
+  };
+
+  /**
+   * Restores the initial selection, e.g. when the surrounding form is reset:
+   * `defaultValue`, or the mode's empty value (as cleared by `handleClear`) if it is not given.
+   */
+  const resetValue = useCallback(() => {
+    const initialValue =
+      defaultValue === undefined ? getEmptySelection(mode) : defaultValue;
+    setDraftValue(undefined);
+    if (!isValueControlled) setUncontrolledValue(initialValue);
+    onChangeProp?.(initialValue);
+  }, [defaultValue, mode, isValueControlled, onChangeProp]);
+
+  /**
+   * Parses text typed into an editable input and validates it against the date constraints.
+   * @param text - The raw input text.
+   * @returns The parsed value, or `undefined` if the text is unparseable or contains a disabled date.
+   */
+  const parseInputValue = useCallback(
+    (text: string): SelectedDateType | undefined => {
+      let parsed = parseDateInput(
+        text,
+        isRangeValueMode ? ChronoPickMode.Range : mode,
+        effectiveDateFormat,
+        enableTime,
+        formatOptions
+      );
+      if (parsed === undefined) return undefined;
+      // In Week mode, any date typed selects the week containing it
+      if (mode === ChronoPickMode.Week && (parsed as DateRange).from) {
+        const typedDate = (parsed as DateRange).from as Date;
+        parsed = {
+          from: startOfWeek(typedDate, firstDayOfWeek),
+          to: endOfWeek(typedDate, firstDayOfWeek),
+        };
+      }
+      // In Quarter mode, any date typed selects the quarter containing it
+      if (mode === ChronoPickMode.Quarter && (parsed as DateRange).from) {
+        const typedDate = (parsed as DateRange).from as Date;
+        parsed = {
+          from: startOfQuarter(typedDate, fiscalYearStartMonth),
+          to: endOfQuarter(typedDate, fiscalYearStartMonth),
+        };
+      }
+      // In Month and Year modes, typed dates are widened to the whole month or year
+      if ((isMonthMode || isYearMode) && parsed) {
+        const periodStart = isMonthMode ? startOfMonth : startOfYear;
+        const periodEnd = isMonthMode ? endOfMonth : endOfYear;
+        if (parsed instanceof Date) {
+          parsed = periodStart(parsed);
+        } else if (!Array.isArray(parsed)) {
+          parsed = {
+            from: parsed.from && periodStart(parsed.from),
+            to: parsed.to && periodEnd(parsed.to),
+          };
+        }
+      }
+
+      const parsedDates: Date[] = Array.isArray(parsed)
+        ? parsed
+        : parsed instanceof Date
+          ? [parsed]
+          : parsed
+            ? ([parsed.from, parsed.to].filter(Boolean) as Date[])
+            : [];
+      if (
+        parsedDates.some((d) =>
+          isDateDisabled(d, minDate, maxDate, disabledDates)
+        )
+      ) {
+        return undefined;
+      }
+      return parsed;
+    },
+    [
+      mode,
+      isRangeValueMode,
+      isMonthMode,
+      isYearMode,
+      firstDayOfWeek,
+      fiscalYearStartMonth,
+      effectiveDateFormat,
+      enableTime,
+      formatOptions,
+      minDate,
+      maxDate,
+      disabledDates,
+    ]
+  );
+
+  /**
+   * Handles live input in an editable input field. If the text parses, the calendar
+   * moves to the parsed month without committing the value.
+   * @param text - The current input text.
+   */
+  const previewInputValue = (text: string) => {
+    const parsed = parseInputValue(text);
+    const previewDate =
+      parsed instanceof Date
+        ? parsed
+        : Array.isArray(parsed)
+          ? parsed[0]
+          : parsed?.from;
+    if (previewDate) setFocusedDate(previewDate);
+  };
+
+  /**
+   * Commits text typed into an editable input field (on blur or Enter).
+   * Calls `onChange` with the parsed value, or `onParseError` if the text is invalid.
+   * Typed text is committed directly, also in `confirmMode`, replacing any draft.
+   * @param text - The input text to commit.
+   * @returns `true` if the text was committed (or unchanged), `false` if it could not be parsed.
+   */
+  const commitInputValue = (text: string): boolean => {
+    if (text.trim() === displayValue) return true; // Nothing was edited
+
+    const parsed = parseInputValue(text);
+    if (parsed === undefined) {
+      onParseError?.(text);
+      return false;
+    }
+    setDraftValue(undefined);
+    emitChange(parsed);
+    if (isRangeValueMode) setTempRangeEnd(null);
+    previewInputValue(text); // Move the calendar to the committed date
+    return true;
+  };
+
+  /**
+   * Moves the displayed period one step back or forward, as the header's previous/next buttons do:
+   * by `monthStep` months in Days view, a year in Months and Quarters views, and a page of years in Years view.
+   * @param direction - `-1` to go back, `1` to go forward.
+   */
+  const navigatePeriod = (direction: 1 | -1) => {
+    switch (currentView) {
+      case CalendarView.Days:
+        handleMonthChange(direction * monthStep);
+        break;
+      case CalendarView.Months:
+      case CalendarView.Quarters:
+        handleYearChange(direction);
+        break;
+      case CalendarView.Years:
+        handleYearChange(direction * YEARS_PER_VIEW);
+        break;
+    }
+  };
+
+  /**
+   * Gets the accessible label of the header's previous or next button for the current view,
+   * e.g. "Previous month" or "Next 12 years".
+   * @param direction - `-1` for the previous button, `1` for the next button.
+   */
+  const getPeriodNavigationLabel = (direction: 1 | -1): string => {
+    const prefix = direction === -1 ? "Previous" : "Next";
+    switch (currentView) {
+      case CalendarView.Days:
+        return monthStep > 1
+          ? `${prefix} ${monthStep} months`
+          : `${prefix} month`;
+      case CalendarView.Months:
+      case CalendarView.Quarters:
+        return `${prefix} year`;
+      case CalendarView.Years:
+        return `${prefix} ${YEARS_PER_VIEW} years`; // E.g., "Previous 12 years"
+      default:
+        return prefix;
+    }
+  };
+
+  /** The start of the range in `Range` mode while its end is being picked, or `null`. */
+  const rangeEndFrom =
+    mode === ChronoPickMode.Range &&
+    value &&
+    !(value instanceof Date) &&
+    !Array.isArray(value) &&
+    value.from &&
+    !value.to
+      ? value.from
+      : null;
+  /**
+   * Memoized resolver of the range end for `rangeEndFrom`, shared by all day cells, so disabled days
+   * around `rangeEndFrom` are searched once rather than per cell (see `createRangeEndResolver`).
+   */
+  const getPendingRangeEnd = useMemo(
+    () =>
+      rangeEndFrom
+        ? createRangeEndResolver(rangeEndFrom, rangeEndOptions)
+        : null,
+    [rangeEndFrom, rangeEndOptions]
+  );
+  /** The end of the range previewed while hovering `tempRangeEnd`, possibly truncated, or `null`. */
+  const hoverRangeEnd =
+    getPendingRangeEnd && tempRangeEnd
+      ? getPendingRangeEnd(tempRangeEnd)
+      : null;
+
+  /**
+   * Determines the visual and functional state(s) of a given day cell.
+   * This includes states like selected, disabled, today, in-range, etc.
+   * While the end of a range is picked, days that cannot end it (per `minRangeDays`, `maxRangeDays`
+   * and `rangeCrossesDisabled`) are disabled, and the hover preview shows the range that would be selected.
+   * @param day - The `Date` object to evaluate.
+   * @returns An array of `DayState` enums representing all applicable states for the day.
+   */
+  const getDayState = (day: Date): DayState[] => {
+    const states: DayState[] = [];
+    if (isSameDay(day, today)) states.push(DayState.Today); // Check if it's today
+    if (isDateDisabled(day, minDate, maxDate, disabledDates))
+      states.push(DayState.Disabled); // Check if disabled
+    else if (
+      getPendingRangeEnd &&
+      rangeEndFrom &&
+      !isSameDay(day, rangeEndFrom) &&
+      !getPendingRangeEnd(day)
+    )
+      states.push(DayState.Disabled); // While picking the range end, days that cannot end the range are disabled
+
+    // Determine selection state based on mode
+    if (
+      mode === ChronoPickMode.Single &&
+      value instanceof Date &&
+      isSameDay(day, value)
+    ) {
+      states.push(DayState.Selected);
+    } else if (
+      mode === ChronoPickMode.Multiple &&
+      Array.isArray(value) &&
+      value.some((d) => isSameDay(d, day))
+    ) {
+      states.push(DayState.Selected);
+    } else if (isDayRangeMode && typeof value === "object" && value) {
+      const range = value as DateRange;
+      if (range.from && isSameDay(day, range.from))
+        states.push(DayState.StartRange, DayState.Selected);
+      if (range.to && isSameDay(day, range.to))
+        states.push(DayState.EndRange, DayState.Selected);
+      if (range.from && range.to && isDateInRange(day, range))
+        states.push(DayState.InRange);
+
+      // Handle hover effect for range selection when 'from' is selected but 'to' is not
+      if (
+        mode === ChronoPickMode.Range &&
+        range.from &&
+        !range.to &&
+        tempRangeEnd &&
+        !states.includes(DayState.Disabled)
+      ) {
+        // Preview the range that picking the hovered day would select (it may be truncated)
+        // Ensure tempFrom is always before tempTo for isDateInRange check
+        const tempFrom =
+          hoverRangeEnd && isBeforeDay(range.from, hoverRangeEnd)
+            ? range.from
+            : hoverRangeEnd;
+        const tempTo =
+          hoverRangeEnd && isBeforeDay(range.from, hoverRangeEnd)
+            ? hoverRangeEnd
+            : range.from;
+        if (
+          tempFrom &&
+          tempTo &&
+          isDateInRange(day, { from: tempFrom, to: tempTo })
+        ) {
+          states.push(DayState.HoverRange);
+        }
+      }
+    }
+    // Handle hover effect for week selection: highlight the whole hovered week
+    if (
+      mode === ChronoPickMode.Week &&
+      tempRangeEnd &&
+      isSameDay(
+        startOfWeek(day, firstDayOfWeek),
+        startOfWeek(tempRangeEnd, firstDayOfWeek)
+      )
+    ) {
+      states.push(DayState.HoverRange);
+    }
+    // If no specific state applies, it's a default day
+    if (states.length === 0) states.push(DayState.Default);
+    return states;
+  };
+
+  /**
+   * Gets the names of the `modifiers` that match a day, in the order they are declared.
+   * @param day - The date to evaluate.
+   * @returns The matching modifier names, e.g. `["holiday"]`.
+   */
+  const getDayModifiers = (day: Date): string[] =>
+    modifiers
+      ? Object.keys(modifiers).filter((name) =>
+          matchesDate(day, modifiers[name])
+        )
+      : [];
+
+  /**
+   * Gets the class names of the `modifiers` that match a day: the class from `modifierClassNames`,
+   * or `chronopick-day-<name>` (the name in kebab case) if none is given.
+   * @param day - The date to evaluate.
+   * @returns The class names of the matching modifiers.
+   */
+  const getDayModifierClassNames = (day: Date): string[] =>
+    getDayModifiers(day).map(
+      (name) => modifierClassNames?.[name] ?? `chronopick-day-${toKebabCase(name)}`
+    );
+
+  /**
+   * Gets the extra information about a day from `dayMeta`, which receives the instant
+   * at which the day starts in `timeZone`.
+   * @param day - The date to evaluate.
+   * @returns The day's badge and description, or `undefined` if there are none.
+   */
+  const getDayMeta = (day: Date): ChronoPickDayMeta | undefined =>
+    dayMeta?.(timeZone ? (fromZonedTime(day, timeZone) ?? day) : day);
+
+  /**
+   * Gets the props of a day cell button in the Days view: its `generateDateId` id (referenced by the grid's
+   * `aria-activedescendant`), the grid cell role and ARIA attributes, and the handlers that select the day
+   * on click and move focus and preview the range or week on hover.
+   * @param day - The date of the cell.
+   * @returns Props to spread onto the day's `<button>`.
+   */
+  const getDayProps = (day: Date) => {
+    const states = getDayState(day);
+    const isDisabled = states.includes(DayState.Disabled);
+    const isFocused = isSameDay(day, focusedDate);
+    const description = getDayMeta(day)?.description;
+    /** `data-<name>` attributes of the matching modifiers, for styling and testing. */
+    const modifierAttributes = Object.fromEntries(
+      getDayModifiers(day).map((name) => [`data-${toKebabCase(name)}`, ""])
+    );
+    return {
+      ...modifierAttributes,
+      id: generateDateId(day, CalendarView.Days), // Unique ID for ARIA active descendant
+      type: "button" as const,
+      role: "gridcell",
+      tabIndex: -1, // Focus stays on the grid, cells are reached via aria-activedescendant
+      disabled: isDisabled,
+      "aria-pressed":
+        states.includes(DayState.Selected) ||
+        states.includes(DayState.StartRange) ||
+        states.includes(DayState.EndRange),
+      "aria-label": `${formatDate(day, "Day, Month DD, YYYY", false, {
+        locale,
+      })}${isDisabled ? " (disabled)" : ""}${
+        description ? `, ${description}` : ""
+      }${isFocused ? ", focused" : ""}`,
+      onClick: (e: React.MouseEvent) => {
+        e.preventDefault(); // Prevent default button behavior
+        e.stopPropagation(); // Stop event from bubbling up
+        handleDayClick(day);
+      },
+      // Update focused date on mouse enter for visual feedback and keyboard context
+      onMouseEnter: () => {
+        if (isDayRangeMode && !isDisabled) setTempRangeEnd(day); // For range/week hover visualization
+        if (!isDisabled && !isFocused) setFocusedDate(day);
+      },
+      // Clear temporary range end on mouse leave
+      onMouseLeave: () => {
+        if (isDayRangeMode) setTempRangeEnd(null);
+      },
+    };
+  };
 
   // Derived values for rendering, memoized for performance
   const currentYear = currentMonthDate.getFullYear();
@@ -999,11 +2493,42 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
     () => getDaysInMonth(currentYear, currentMonth),
     [currentYear, currentMonth]
   );
-  /** Memoized offset for the first day of the `currentMonthDate`'s month (0 for Sunday, etc.). Used for grid layout. */
+  /** Memoized offset of the first day of the `currentMonthDate`'s month from the start of the week. Used for grid layout. */
   const firstDayOffset = useMemo(
-    () => getFirstDayOfMonth(currentYear, currentMonth),
-    [currentYear, currentMonth]
+    () => getFirstDayOfMonth(currentYear, currentMonth, firstDayOfWeek),
+    [currentYear, currentMonth, firstDayOfWeek]
+  );
+  /** Memoized week rows (with week numbers) of the `currentMonthDate`'s month, used by the Days view grid. */
+  const weeksToRender = useMemo(
+    () =>
+      getCalendarWeeks(currentYear, currentMonth, firstDayOfWeek, weekNumbering),
+    [currentYear, currentMonth, firstDayOfWeek, weekNumbering]
   );
+  /** Memoized month panels (consecutive months starting at `currentMonthDate`) shown side by side in the Days view. */
+  const monthPanels = useMemo<CalendarMonth[]>(
+    () =>
+      Array.from({ length: Math.max(1, numberOfMonths) }, (_, i) => {
+        const monthDate = new Date(currentYear, currentMonth + i, 1);
+        return {
+          monthDate,
+          weeks: getCalendarWeeks(
+            monthDate.getFullYear(),
+            monthDate.getMonth(),
+            firstDayOfWeek,
+            weekNumbering
+          ),
+        };
+      }),
+    [currentYear, currentMonth, numberOfMonths, firstDayOfWeek, weekNumbering]
+  );
+  /** Memoized start dates of the four quarters of the fiscal year containing `currentMonthDate`, for the "Quarters" view. */
+  const quartersToRender = useMemo(() => {
+    const fiscalYearStart = startOfFiscalYear(
+      new Date(currentYear, currentMonth, 1),
+      fiscalYearStartMonth
+    );
+    return [0, 3, 6, 9].map((offset) => addMonths(fiscalYearStart, offset));
+  }, [currentYear, currentMonth, fiscalYearStartMonth]);
   /** Memoized array of years to render in the "Years" view, based on `currentMonthDate`'s year. */
   const yearsToRender = useMemo(
     () => getYearsRange(currentYear, YEARS_PER_VIEW),
@@ -1021,26 +2546,88 @@ export const useChronoPickCore = (params: UseChronoPickCoreParams) => {
     // Data for rendering views
     daysToRender,
     firstDayOffset,
+    weeksToRender,
+    monthPanels,
+    quartersToRender,
     yearsToRender,
-    monthsToRender: MONTH_NAMES_SHORT, // Constant array of month names
+    monthsToRender: localeData.monthNamesShort, // Month names for the configured locale
+
+    // Selection and constraints as wall-clock dates in `timeZone`
+    selectedValue: value,
+    committedValue, // Differs from `selectedValue` while `confirmMode` holds a draft
+    minDate,
+    maxDate,
+    disabledDates,
+    today,
+
+    // Locale-dependent names and week layout
+    localeData,
+    firstDayOfWeek,
+    fiscalYearStartMonth,
+    monthStep, // Months moved by the header's previous/next buttons
 
     // Time selection state
     selectedHour,
     selectedMinute,
+    selectedSecond,
+    selectedEndTime,
+    hourCycle,
+    showSeconds,
+    minuteStep: Math.max(1, minuteStep),
+    secondStep: Math.max(1, secondStep),
+    isTimeDisabled,
+    hasSecondConstraints,
+
+    // Selected dates list (Multiple mode)
+    selectedDates,
+
+    // Presets sidebar
+    presetItems,
 
     // Formatted value for input display
     displayValue,
+    effectiveDateFormat,
+
+    // Form participation (`name`) and validation
+    mode,
+    serializeDate,
+    resetValue,
+    validationError,
 
     // Handler functions
     handleMonthChange,
     handleYearChange,
     handleDayClick,
+    handleWeekSelect,
     setCurrentView, // To change between Days, Months, Years views
     handleMonthSelect,
     handleYearSelect,
+    handleQuarterSelect,
+    handlePresetSelect,
     setTempRangeEnd,
     handleTimeChange,
+    handleEndTimeChange,
+    handleDateTimeChange,
+    handleDateRemove,
+    handleClear,
+    applyDraft,
+    cancelDraft,
+    handleTodayClick,
     handleKeyDown,
     setFocusedDate,
+    previewInputValue,
+    commitInputValue,
+    navigatePeriod,
+    getPeriodNavigationLabel,
+
+    // Day cell state and props for the Days view
+    getDayState,
+    getDayModifiers,
+    getDayModifierClassNames,
+    getDayMeta,
+    getDayProps,
   };
 };
+
+/** The state and handlers of a picker, as returned by `useChronoPickCore` (passed to `renderHeader` and `renderFooter`). */
+export type ChronoPickCoreState = ReturnType<typeof useChronoPickCore>;
@@ -0,0 +1,247 @@
+import { useCallback, useMemo } from "react";
+import {
+  ChronoPickMode,
+  ChronoTimePickProps,
+  SelectedTimeType,
+  TimeInputValue,
+  TimeRange,
+  TimeValue,
+} from "../types/TChronoPick";
+import {
+  formatDate,
+  getDefaultTimeFormat,
+  getTimeSlots,
+  findNearestAllowedTime,
+  getTimeValue,
+  setTime,
+  timeValueToSeconds,
+} from "../utils/dateUtils";
+import { getLocaleData } from "../utils/localeUtils";
+
+/** The time shown in the time picker before a time is picked. */
+const DEFAULT_TIME: TimeValue = { hours: 12, minutes: 0, seconds: 0 };
+
+/** Checks whether a `ChronoTimePick` value is a range of times rather than a single time. */
+const isTimeRange = (value: SelectedTimeType): value is TimeRange =>
+  !!value && !(value instanceof Date) && "from" in value;
+
+/** Gets the time of day of a picked time, or `null` if it is not picked. */
+const toTimeValue = (time: TimeInputValue | null): TimeValue | null =>
+  time instanceof Date ? getTimeValue(time) : time;
+
+/**
+ * Applies a new time of day to a picked time, keeping its shape: a `Date` keeps its date, anything else becomes a `TimeValue`.
+ * @param time The time being replaced, or `null` if none is picked yet.
+ * @param newTime The new time of day.
+ * @param fallbackDate The day to use for a `Date` result if `time` is `null`.
+ * @returns The new picked time.
+ */
+const withTimeOfDay = (
+  time: TimeInputValue | null,
+  newTime: TimeValue,
+  fallbackDate: Date | null
+): TimeInputValue => {
+  const date = time instanceof Date ? time : time ? null : fallbackDate;
+  return date
+    ? setTime(date, newTime.hours, newTime.minutes, newTime.seconds)
+    : { ...newTime };
+};
+
+/**
+ * Compares two picked times: by instant if both are dates, otherwise by time of day.
+ * @returns A negative number if `a` is earlier, a positive number if it is later, `0` if they are equal.
+ */
+const compareTimes = (a: TimeInputValue, b: TimeInputValue): number => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  const secondsOfDay = (time: TimeInputValue) =>
+    timeValueToSeconds(time instanceof Date ? getTimeValue(time) : time);
+  return secondsOfDay(a) - secondsOfDay(b);
+};
+
+/**
+ * Custom hook `useChronoTimePickCore` encapsulates the logic of the standalone `ChronoTimePick` time picker:
+ * the time(s) shown by the columns, the allowed times, the changes emitted for a single time or a time range,
+ * and the displayed value.
+ *
+ * @param params - The props of `ChronoTimePick`.
+ * @returns An object containing the selected start and end times, the time picker configuration,
+ *          `isTimeDisabled`, the change handlers and the display value.
+ */
+export const useChronoTimePickCore = (params: ChronoTimePickProps) => {
+  const {
+    value,
+    onChange,
+    mode = ChronoPickMode.Single,
+    hourCycle = 12,
+    showSeconds = false,
+    minuteStep = 1,
+    secondStep = 1,
+    minTime,
+    maxTime,
+    disabledTimes,
+    timeFormat: timeFormatProp,
+    locale,
+  } = params;
+
+  const isRange = mode === ChronoPickMode.Range;
+  /** Memoized locale data for the AM/PM markers. */
+  const localeData = useMemo(() => getLocaleData(locale), [locale]);
+  /** The format of the displayed time(s). */
+  const timeFormat =
+    timeFormatProp ?? getDefaultTimeFormat(hourCycle, showSeconds);
+
+  /** The picked single time, or range start and end, as given by `value`. */
+  const range: TimeRange = isTimeRange(value)
+    ? value
+    : { from: isRange ? null : value, to: null };
+  /** The time of day of the single time or range start, or `null` if not picked. */
+  const startTime = toTimeValue(range.from);
+  /** The time of day of the range end, or `null` if not picked. */
+  const endTime = toTimeValue(range.to);
+  /** The times shown by the columns: an end that is not picked yet starts at the start time. */
+  const shownStartTime = startTime ?? DEFAULT_TIME;
+  const shownEndTime = endTime ?? shownStartTime;
+
+  /** `minTime` and `maxTime` in seconds since midnight, so inline time objects do not change `isTimeDisabled`. */
+  const minTimeSeconds = minTime ? timeValueToSeconds(minTime) : undefined;
+  const maxTimeSeconds = maxTime ? timeValueToSeconds(maxTime) : undefined;
+
+  /**
+   * Checks whether a time of day cannot be selected, due to `minTime`, `maxTime` or `disabledTimes`.
+   * @param time - The time of day to check.
+   * @returns `true` if the time is disabled, `false` otherwise.
+   */
+  const isTimeDisabled = useCallback(
+    (time: TimeValue): boolean => {
+      const seconds = timeValueToSeconds(time);
+      if (minTimeSeconds !== undefined && seconds < minTimeSeconds) return true;
+      if (maxTimeSeconds !== undefined && seconds > maxTimeSeconds) return true;
+      return !!disabledTimes?.(time);
+    },
+    [minTimeSeconds, maxTimeSeconds, disabledTimes]
+  );
+
+  /** Whether `isTimeDisabled` can disable the first second of a minute but allow a later one (see `TimePicker`). */
+  const hasSecondConstraints =
+    !!disabledTimes ||
+    (minTimeSeconds !== undefined && minTimeSeconds % 60 !== 0);
+
+  /** Memoized times of day offered by the columns (per `minuteStep` and `secondStep`), in seconds since midnight. */
+  const timeSlots = useMemo(
+    () => getTimeSlots(minuteStep, secondStep, showSeconds),
+    [showSeconds, minuteStep, secondStep]
+  );
+
+  /**
+   * Sets the time of the single time or of one endpoint of the range and calls `onChange`.
+   * The requested time is snapped to the nearest allowed time; nothing is emitted if no time is allowed.
+   * In `Range` mode, if the change would put `from` after `to`, the other endpoint is moved along to the same time.
+   * @param endpoint - The time that changed (`from` for the single time or range start, `to` for the range end).
+   * @param hour - The new hour (0-23, optional).
+   * @param minute - The new minute (optional).
+   * @param second - The new second (optional).
+   */
+  const changeTime = (
+    endpoint: keyof TimeRange,
+    hour?: number,
+    minute?: number,
+    second?: number
+  ) => {
+    const current = endpoint === "from" ? shownStartTime : shownEndTime;
+    const newTime = findNearestAllowedTime(
+      {
+        hours: hour ?? current.hours,
+        minutes: minute ?? current.minutes,
+        seconds: showSeconds ? (second ?? current.seconds) : 0,
+      },
+      timeSlots,
+      isTimeDisabled
+    );
+    if (!newTime) return; // No time is allowed
+
+    const other = range[endpoint === "from" ? "to" : "from"];
+    const newValue = withTimeOfDay(
+      range[endpoint],
+      newTime,
+      other instanceof Date ? other : null
+    );
+    if (!isRange) {
+      onChange(newValue);
+      return;
+    }
+
+    let { from, to }: TimeRange = { ...range, [endpoint]: newValue };
+    if (from && to && compareTimes(from, to) > 0) {
+      // Keep `from` before `to` by moving the other endpoint along
+      if (endpoint === "from")
+        to = withTimeOfDay(to, newTime, from instanceof Date ? from : null);
+      else
+        from = withTimeOfDay(from, newTime, to instanceof Date ? to : null);
+    }
+    onChange({ from, to });
+  };
+
+  /**
+   * Handles changes from the columns of the single time, or of the range start in `Range` mode.
+   * @param hour - The new hour (0-23, optional).
+   * @param minute - The new minute (optional).
+   * @param second - The new second (optional).
+   */
+  const handleTimeChange = (hour?: number, minute?: number, second?: number) =>
+    changeTime("from", hour, minute, second);
+
+  /**
+   * Handles changes from the columns of the range end in `Range` mode.
+   * @param hour - The new hour (0-23, optional).
+   * @param minute - The new minute (optional).
+   * @param second - The new second (optional).
+   */
+  const handleEndTimeChange = (
+    hour?: number,
+    minute?: number,
+    second?: number
+  ) => changeTime("to", hour, minute, second);
+
+  /** The display value for the input field, e.g. "09:00 AM" or "09:00 AM to 05:00 PM". */
+  const displayValue = useMemo(() => {
+    /** Formats a time of day with `timeFormat`. */
+    const format = (time: TimeValue) =>
+      formatDate(
+        setTime(new Date(2000, 0, 1), time.hours, time.minutes, time.seconds),
+        timeFormat,
+        true,
+        { locale }
+      );
+    if (!isRange) return startTime ? format(startTime) : "";
+    if (!startTime) return "";
+    return `${format(startTime)} to ${endTime ? format(endTime) : "..."}`;
+  }, [
+    isRange,
+    startTime?.hours,
+    startTime?.minutes,
+    startTime?.seconds,
+    endTime?.hours,
+    endTime?.minutes,
+    endTime?.seconds,
+    timeFormat,
+    locale,
+  ]);
+
+  return {
+    mode,
+    isRange,
+    startTime: shownStartTime,
+    endTime: shownEndTime,
+    hourCycle,
+    showSeconds,
+    minuteStep: Math.max(1, minuteStep),
+    secondStep: Math.max(1, secondStep),
+    isTimeDisabled,
+    hasSecondConstraints,
+    handleTimeChange,
+    handleEndTimeChange,
+    displayValue,
+    timeFormat,
+    localeData,
+  };
+};
@@ -0,0 +1,336 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  PopoverPlacement,
+  computePopoverPosition,
+  getClippingAncestors,
+  isClippedOut,
+} from "../utils/positioning";
+
+/** Parameters of the `usePickerPopover` hook. */
+export interface UsePickerPopoverParams {
+  /** If true, the picker is rendered in place and is always open; no portal is created. */
+  inline: boolean;
+  /** The class name of the portal container appended to `document.body`. */
+  containerClassName: string;
+  /**
+   * Called on the animation frame after the picker is opened and positioned,
+   * e.g. to move focus into the picker.
+   */
+  onOpened?: () => void;
+  /** Whether the picker is open. If omitted, the popover opens and closes itself, starting at `defaultOpen`. */
+  open?: boolean;
+  /** Whether an uncontrolled popover (without `open`) is initially open. */
+  defaultOpen?: boolean;
+  /** Called when the popover requests to open or close. */
+  onOpenChange?: (open: boolean) => void;
+  /** The preferred placement of the picker relative to the input. Defaults to "bottom-start". */
+  placement?: PopoverPlacement;
+  /** The distance between the input and the picker, in pixels. Defaults to `2`. */
+  offset?: number;
+}
+
+/**
+ * Popover behaviour shared by the pickers that open from an input: a portal container in
+ * `document.body`, the animated open/close state, positioning relative to the input
+ * (see `computePopoverPosition`), and closing on interactions outside the input and picker.
+ * The picker is repositioned on scrolling (of the page or any scroll container), on window
+ * resizes, and when the input or the picker changes size.
+ * The open state can be controlled with `open` and `onOpenChange`; the popover then only
+ * animates when `open` changes, and requests to open or close are reported to `onOpenChange`.
+ *
+ * @param params - Configuration for the popover, see `UsePickerPopoverParams`.
+ * @returns Refs for the input, picker and arrow elements, the portal container, the open state and animation classes,
+ *          the handlers to open and close the picker, and `updatePosition` to reposition it after its content resized.
+ */
+export const usePickerPopover = ({
+  inline,
+  containerClassName,
+  onOpened,
+  open,
+  defaultOpen = false,
+  onOpenChange,
+  placement = "bottom-start",
+  offset = 2,
+}: UsePickerPopoverParams) => {
+  /** Whether the picker is initially open: always for inline pickers, otherwise per `open` or `defaultOpen`. */
+  const initiallyOpen = inline || (open ?? defaultOpen);
+  /** State: The DOM element where the portal content (picker UI) will be rendered. Null if inline. */
+  const [portalContainer, setPortalContainer] = useState<HTMLElement | null>(
+    null
+  );
+
+  // --- Animation-related state ---
+  /** State: Represents the logical intent for the picker to be open or closed. Controls animations. */
+  const [logicalPickerOpen, setLogicalPickerOpen] = useState(initiallyOpen); // Inline pickers are always "logically open"
+  /** State: Controls whether the picker content JSX is actually rendered. Remains true during closing animation. */
+  const [shouldRenderPicker, setShouldRenderPicker] = useState(initiallyOpen);
+  /** State: Holds dynamic Tailwind CSS classes for opacity and scale to drive open/close animations. */
+  const [animationClasses, setAnimationClasses] = useState(
+    initiallyOpen ? "opacity-100 scale-100" : "opacity-0 scale-95"
+  );
+
+  /** Ref to the input element the picker opens from. */
+  const inputRef = useRef<HTMLInputElement>(null);
+  /** Ref to the main div of the picker content (the popover). */
+  const pickerRef = useRef<HTMLDivElement>(null);
+  /** Ref to the optional arrow element inside the picker, which is moved to point at the input. */
+  const arrowRef = useRef<HTMLDivElement>(null);
+  /** Ref to the latest `onOpened`, so a new callback on every render does not re-run the positioning effect. */
+  const onOpenedRef = useRef(onOpened);
+  onOpenedRef.current = onOpened;
+  /** Ref to the latest `onOpenChange`, so the open and close handlers stay stable. */
+  const onOpenChangeRef = useRef(onOpenChange);
+  onOpenChangeRef.current = onOpenChange;
+  /** Ref to the latest logical open state, so `onOpenChange` is only called for actual changes. */
+  const logicalPickerOpenRef = useRef(logicalPickerOpen);
+  logicalPickerOpenRef.current = logicalPickerOpen;
+  /** Whether the open state is controlled by the `open` parameter. */
+  const isOpenControlled = open !== undefined;
+
+  /** Starts the opening animation. Sets state to render the picker and applies animation classes. */
+  const animateOpen = useCallback(() => {
+    setShouldRenderPicker(true); // Ensure picker is in DOM for animation
+    setLogicalPickerOpen(true);
+    // Start animation from closed state (invisible, slightly scaled down)
+    setAnimationClasses("opacity-0 scale-95");
+    requestAnimationFrame(() => {
+      // Transition to open state (fully visible, normal scale)
+      setAnimationClasses("opacity-100 scale-100");
+    });
+  }, []);
+
+  /** Starts the closing animation. Applies animation classes to transition to closed state. */
+  const animateClose = useCallback(() => {
+    setLogicalPickerOpen(false);
+    // Start transition to closed state
+    setAnimationClasses("opacity-0 scale-95");
+  }, []);
+
+  /**
+   * Opens the picker with animation, or only requests it via `onOpenChange` when `open` is controlled.
+   */
+  const openPickerWithAnimation = useCallback(() => {
+    if (inline) return; // Inline pickers don't open/close via animation
+    if (!isOpenControlled) animateOpen();
+    if (!logicalPickerOpenRef.current) {
+      logicalPickerOpenRef.current = true; // Report a change only once until the next render
+      onOpenChangeRef.current?.(true);
+    }
+  }, [inline, isOpenControlled, animateOpen]);
+
+  /**
+   * Closes the picker with animation, or only requests it via `onOpenChange` when `open` is controlled.
+   */
+  const closePickerWithAnimation = useCallback(() => {
+    if (inline) return;
+    if (!isOpenControlled) animateClose();
+    if (logicalPickerOpenRef.current) {
+      logicalPickerOpenRef.current = false; // Report a change only once until the next render
+      onOpenChangeRef.current?.(false);
+    }
+  }, [inline, isOpenControlled, animateClose]);
+
+  /** Effect to open or close a controlled picker with animation when the `open` parameter changes. */
+  useEffect(() => {
+    if (inline || open === undefined || open === logicalPickerOpenRef.current)
+      return;
+    if (open) animateOpen();
+    else animateClose();
+  }, [inline, open, animateOpen, animateClose]);
+
+  /**
+   * Opens or closes the picker with animation, e.g. when the picker's core logic
+   * closes it after a selection.
+   */
+  const handleVisibilityChange = useCallback(
+    (visible: boolean) => {
+      if (inline) return;
+      if (visible) {
+        openPickerWithAnimation();
+      } else {
+        closePickerWithAnimation();
+      }
+    },
+    [inline, openPickerWithAnimation, closePickerWithAnimation]
+  );
+
+  /**
+   * Effect to manage the creation and destruction of the portal container DOM element.
+   * Runs when `inline` prop changes or on component mount/unmount.
+   * If not inline, creates a div in `document.body` for the picker.
+   * Cleans up by removing the div.
+   */
+  useEffect(() => {
+    if (inline) {
+      // If inline, ensure no portal container exists
+      if (portalContainer && document.body.contains(portalContainer)) {
+        document.body.removeChild(portalContainer);
+      }
+      setPortalContainer(null);
+      return;
+    }
+    // Create portal container for non-inline picker
+    const container = document.createElement("div");
+    container.classList.add(containerClassName);
+    container.style.visibility = "hidden"; // Initially hidden until positioned
+    document.body.appendChild(container);
+    setPortalContainer(container); // Store ref to the portal host
+
+    return () => {
+      // Cleanup on unmount or if `inline` becomes true
+      if (document.body.contains(container)) {
+        document.body.removeChild(container);
+      }
+      // Clear portalContainer state if this effect instance was responsible for the current container
+      setPortalContainer((current) => (current === container ? null : current));
+    };
+  }, [inline]); // Only depends on `inline` prop
+
+  /**
+   * Effect to finalize the closing animation by setting `shouldRenderPicker` to `false`.
+   * This removes the picker content from the DOM after the CSS transition completes.
+   */
+  useEffect(() => {
+    // If picker is logically closed and animation classes indicate it's in the process of closing
+    if (!logicalPickerOpen && animationClasses.includes("opacity-0")) {
+      const timer = setTimeout(() => {
+        setShouldRenderPicker(false); // Remove from DOM after transition
+      }, 150); // Duration must match CSS transition-duration (150ms)
+      return () => clearTimeout(timer); // Cleanup timeout if effect re-runs or unmounts
+    }
+  }, [logicalPickerOpen, animationClasses]);
+
+  /**
+   * Positions the portal container relative to the input field per `placement` and `offset`,
+   * flipped and shifted to stay within the viewport, and points the arrow (if any) at the input.
+   * The portal container's `data-side` attribute is set to the side of the input it ended up on.
+   * The picker is hidden while the input is scrolled out of view inside a scroll container.
+   */
+  const updatePosition = useCallback(() => {
+    const input = inputRef.current;
+    if (!input || !pickerRef.current || !portalContainer) return;
+    if (isClippedOut(input, getClippingAncestors(input))) {
+      portalContainer.style.visibility = "hidden";
+      return;
+    }
+    // The viewport, excluding scrollbars
+    const viewport = {
+      top: 0,
+      left: 0,
+      width: document.documentElement.clientWidth || window.innerWidth,
+      height: document.documentElement.clientHeight || window.innerHeight,
+    };
+    const position = computePopoverPosition(
+      input.getBoundingClientRect(),
+      {
+        width: pickerRef.current.offsetWidth,
+        height: pickerRef.current.offsetHeight,
+      },
+      { placement, offset, boundary: viewport }
+    );
+
+    // The portal container is absolutely positioned in the document, so add the scroll offsets
+    portalContainer.style.top = `${position.top + window.scrollY}px`;
+    portalContainer.style.left = `${position.left + window.scrollX}px`;
+    portalContainer.dataset.side = position.side;
+    if (arrowRef.current) {
+      const isVertical = position.side === "top" || position.side === "bottom";
+      const arrowSize = isVertical
+        ? arrowRef.current.offsetWidth
+        : arrowRef.current.offsetHeight;
+      const arrowStart = `${position.arrowOffset - arrowSize / 2}px`;
+      arrowRef.current.style.left = isVertical ? arrowStart : "";
+      arrowRef.current.style.top = isVertical ? "" : arrowStart;
+    }
+    portalContainer.style.visibility = "visible"; // Make portal visible after positioning
+  }, [portalContainer, placement, offset]);
+
+  /**
+   * Effect to manage the positioning and visibility of the portal, and event listeners for outside interactions.
+   * Runs when the picker's open state, inline status, or portal container changes.
+   * Handles positioning the picker relative to the input, click/focus outside detection, and scroll/resize updates.
+   */
+  useEffect(() => {
+    // If inline, or no portal, or picker shouldn't be rendered, ensure portal is hidden and exit.
+    if (inline || !portalContainer || !shouldRenderPicker) {
+      if (portalContainer && !shouldRenderPicker) {
+        // Ensure portal is hidden if picker is not rendered
+        portalContainer.style.visibility = "hidden";
+      }
+      return;
+    }
+
+    // Handles clicks or focus shifts outside the input and picker, to close the picker.
+    const handleInteractionOutside = (event: MouseEvent | FocusEvent) => {
+      const target = event.target as Node;
+      if (inputRef.current?.contains(target)) return; // Click/focus on input
+      if (pickerRef.current?.contains(target)) return; // Click/focus inside picker
+      closePickerWithAnimation(); // Close if outside
+    };
+
+    if (logicalPickerOpen) {
+      // Only set up if picker is intended to be open
+      // Position portal and notify on next animation frame to ensure DOM is ready
+      requestAnimationFrame(() => {
+        if (pickerRef.current && portalContainer) {
+          updatePosition();
+          onOpenedRef.current?.();
+        }
+      });
+      // Add event listeners for outside interaction and repositioning
+      document.addEventListener(
+        "mousedown",
+        handleInteractionOutside as EventListener
+      );
+      document.addEventListener(
+        "focusin",
+        handleInteractionOutside as EventListener
+      );
+      window.addEventListener("scroll", updatePosition, true); // Capture phase, to also catch scrolling containers
+      window.addEventListener("resize", updatePosition);
+      // Reposition when the input or the picker changes size, e.g. on a layout change or a new view
+      const resizeObserver =
+        typeof ResizeObserver !== "undefined"
+          ? new ResizeObserver(() => updatePosition())
+          : null;
+      if (inputRef.current) resizeObserver?.observe(inputRef.current);
+      if (pickerRef.current) resizeObserver?.observe(pickerRef.current);
+
+      // Cleanup event listeners
+      return () => {
+        document.removeEventListener(
+          "mousedown",
+          handleInteractionOutside as EventListener
+        );
+        document.removeEventListener(
+          "focusin",
+          handleInteractionOutside as EventListener
+        );
+        window.removeEventListener("scroll", updatePosition, true);
+        window.removeEventListener("resize", updatePosition);
+        resizeObserver?.disconnect();
+      };
+    }
+  }, [
+    logicalPickerOpen,
+    inline,
+    portalContainer,
+    closePickerWithAnimation,
+    shouldRenderPicker,
+    updatePosition,
+  ]);
+
+  return {
+    inputRef,
+    pickerRef,
+    arrowRef,
+    portalContainer,
+    logicalPickerOpen,
+    shouldRenderPicker,
+    animationClasses,
+    openPickerWithAnimation,
+    closePickerWithAnimation,
+    handleVisibilityChange,
+    updatePosition,
+  };
+};
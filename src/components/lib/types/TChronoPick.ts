@@ -1,3 +1,8 @@
+import type { ReactNode } from "react";
+import { TimeZoneDisambiguation } from "../utils/timeZoneUtils";
+import { PopoverPlacement } from "../utils/positioning";
+import type { ChronoPickCoreState } from "../hooks/useChronoPickCore";
+
 /**
  * Enum representing the different selection modes for ChronoPick.
  */
@@ -8,6 +13,18 @@ export enum ChronoPickMode {
   Multiple = "multiple",
   /** Allows selection of a start and end date, defining a range. */
   Range = "range",
+  /** Allows selection of a whole week, producing a range from the start to the end of the week. */
+  Week = "week",
+  /** Allows selection of a month, producing the first day of the month. */
+  Month = "month",
+  /** Allows selection of a year, producing January 1st of the year. */
+  Year = "year",
+  /** Allows selection of a range of months, from the start of the first to the end of the last month. */
+  MonthRange = "monthRange",
+  /** Allows selection of a range of years, from the start of the first to the end of the last year. */
+  YearRange = "yearRange",
+  /** Allows selection of a quarter, producing a range from the start to the end of the quarter. */
+  Quarter = "quarter",
 }
 
 /**
@@ -24,13 +41,143 @@ export interface DateRange {
 
 /**
  * Type representing the possible shapes of the selected date(s) based on the `ChronoPickMode`.
- * - `Date`: For `ChronoPickMode.Single`.
+ * - `Date`: For `ChronoPickMode.Single`, `Month` and `Year`.
  * - `Date[]`: For `ChronoPickMode.Multiple`.
- * - `DateRange`: For `ChronoPickMode.Range`.
+ * - `DateRange`: For `ChronoPickMode.Range`, `Week`, `MonthRange`, `YearRange` and `Quarter`.
  * - `null`: If no date is selected in any mode.
  */
 export type SelectedDateType = Date | Date[] | DateRange | null;
 
+/**
+ * Type representing a day of the week, as returned by `Date.prototype.getDay()`
+ * (0 for Sunday, 1 for Monday, ..., 6 for Saturday).
+ */
+export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Interface representing a time of day.
+ */
+export interface TimeValue {
+  /** The hours (0-23). */
+  hours: number;
+  /** The minutes (0-59). */
+  minutes: number;
+  /** The seconds (0-59). */
+  seconds: number;
+}
+
+/**
+ * Type representing the hour cycle of the time picker and the default time format:
+ * `12` for hours 1-12 with AM/PM, `24` for hours 0-23.
+ */
+export type HourCycle = 12 | 24;
+
+/**
+ * Type representing how a date range that would span disabled days is handled in `Range` mode:
+ * - `allow`: the range may include disabled days.
+ * - `block`: days beyond the first disabled day after (or before) `from` cannot end the range.
+ * - `truncate`: picking a day beyond a disabled day ends the range at the last enabled day before it.
+ */
+export type RangeCrossesDisabled = "allow" | "block" | "truncate";
+
+/**
+ * Enum representing the supported week numbering schemes.
+ */
+export enum WeekNumbering {
+  /** ISO-8601: weeks start on Monday and week 1 contains the year's first Thursday. */
+  ISO = "iso",
+  /** US: weeks start on Sunday and week 1 contains January 1st. */
+  US = "us",
+}
+
+/**
+ * Interface representing one row (week) of the Days view grid.
+ */
+export interface CalendarWeek {
+  /** The first day of the week, which may fall in the previous month. */
+  weekStart: Date;
+  /** The week number according to the configured `WeekNumbering`. */
+  weekNumber: number;
+  /** The seven cells of the row; `null` for days outside the displayed month. */
+  days: (Date | null)[];
+}
+
+/**
+ * Interface representing one month panel of the Days view when several months are shown side by side.
+ */
+export interface CalendarMonth {
+  /** The first day of the panel's month. */
+  monthDate: Date;
+  /** The week rows of the panel's month grid. */
+  weeks: CalendarWeek[];
+}
+
+/**
+ * Context passed to a preset's resolver.
+ */
+export interface ChronoPickPresetContext {
+  /** Today's date, at midnight. */
+  today: Date;
+  /** The picker's selection mode, so resolvers can shape their value (e.g. `Date` vs `DateRange`). */
+  mode: ChronoPickMode;
+  /** The first day of the week used by the picker (0 for Sunday, 1 for Monday, etc.). */
+  firstDayOfWeek: number;
+  /** The month in which the fiscal year starts (0 for January). */
+  fiscalYearStartMonth: number;
+}
+
+/**
+ * A preset shown in the presets sidebar, e.g. "Last 7 days".
+ */
+export interface ChronoPickPreset {
+  /** The text of the preset's button. */
+  label: string;
+  /**
+   * Resolves the preset to a value for the picker's mode.
+   * Return `null` if the preset does not apply to the mode; its button is then disabled.
+   */
+  resolve: (context: ChronoPickPresetContext) => SelectedDateType;
+}
+
+/**
+ * Extra information about a day in the Days view, returned by the `dayMeta` prop.
+ */
+export interface ChronoPickDayMeta {
+  /** Short text shown in the day's cell below its number, e.g. a price or "Full". */
+  badge?: string;
+  /** Accessible description appended to the day cell's aria-label, e.g. "Sold out". */
+  description?: string;
+}
+
+/**
+ * Type representing the kind of a validation error:
+ * - `required`: no date (or no complete range) is selected while `required` is set.
+ * - `minDate` / `maxDate`: a selected date is before `minDate` or after `maxDate`.
+ * - `disabled`: a selected date is matched by `disabledDates`.
+ * - `minRangeDays` / `maxRangeDays`: the selected range is shorter or longer than allowed.
+ * - `custom`: the error was returned by the `validate` prop.
+ */
+export type ChronoPickValidationErrorCode =
+  | "required"
+  | "minDate"
+  | "maxDate"
+  | "disabled"
+  | "minRangeDays"
+  | "maxRangeDays"
+  | "custom";
+
+/**
+ * A validation error of the selected value, reported to `onValidate` and shown below the input.
+ */
+export interface ChronoPickValidationError {
+  /** The kind of error. */
+  code: ChronoPickValidationErrorCode;
+  /** A message describing the error, e.g. "Select a date on or after 2024-03-01". */
+  message: string;
+  /** The selected date that caused the error, if the error concerns a single date. */
+  date?: Date;
+}
+
 /**
  * Interface for the main ChronoPick component's props.
  * Defines the configuration options available to customize the date picker.
@@ -39,13 +186,16 @@ export interface ChronoPickProps {
   /**
    * The currently selected date or dates.
    * The type of this prop depends on the `mode` (e.g., `Date` for single, `Date[]` for multiple, `DateRange` for range).
+   * If omitted, the picker is uncontrolled and keeps the selection itself, starting at `defaultValue`.
    */
-  value: SelectedDateType;
+  value?: SelectedDateType;
+  /** The initially selected date or dates of an uncontrolled picker (without `value`). */
+  defaultValue?: SelectedDateType;
   /**
    * Callback function invoked when the selected date(s) change.
    * Receives the new `SelectedDateType` as an argument.
    */
-  onChange: (date: SelectedDateType) => void;
+  onChange?: (date: SelectedDateType) => void;
   /**
    * The selection mode of the picker.
    * Defaults to `ChronoPickMode.Single`.
@@ -53,18 +203,22 @@ export interface ChronoPickProps {
   mode?: ChronoPickMode;
   /**
    * The minimum selectable date. Dates before this will be visually and functionally disabled.
+   * If `enableTime` is true, the time of day is also respected: on the day of `minDate`,
+   * earlier times are disabled.
    */
   minDate?: Date;
   /**
    * The maximum selectable date. Dates after this will be visually and functionally disabled.
+   * If `enableTime` is true, the time of day is also respected: on the day of `maxDate`,
+   * later times are disabled.
    */
   maxDate?: Date;
   /**
    * The date format string used for displaying the date in the input field.
    * Example: "YYYY-MM-DD", "MM/DD/YYYY", "Day, Month DD, YYYY".
    * Refer to `formatDate` in `dateUtils.ts` for supported formatting tokens.
-   * If `enableTime` is true, a default time format (e.g., "hh:mm K") will be appended.
-   * Defaults to "YYYY-MM-DD".
+   * If `enableTime` is true, a default time format following `hourCycle` and `showSeconds` (e.g., "hh:mm K") will be appended.
+   * Defaults to "YYYY-MM-DD", or "MMMM YYYY" in Month modes, "YYYY" in Year modes and "[Q]Q YYYY" in Quarter mode.
    */
   dateFormat?: string;
   /**
@@ -73,6 +227,23 @@ export interface ChronoPickProps {
    * Defaults to `false`.
    */
   inline?: boolean;
+  /**
+   * The preferred placement of the picker relative to the input, e.g. "bottom-start" (below the input,
+   * aligned with its left edge) or "right" (right of the input, centered). If the picker does not fit,
+   * it flips to the opposite side and shifts to stay within the viewport. Ignored if `inline` is true.
+   * Defaults to "bottom-start".
+   */
+  placement?: PopoverPlacement;
+  /**
+   * The distance between the input and the picker, in pixels.
+   * Defaults to `2`.
+   */
+  offset?: number;
+  /**
+   * If true, the picker shows an arrow pointing at the input. Ignored if `inline` is true.
+   * Defaults to `false`.
+   */
+  showArrow?: boolean;
   /**
    * Placeholder text for the input field when no date is selected.
    * Defaults to "Select Date".
@@ -84,12 +255,358 @@ export interface ChronoPickProps {
    * and returns `true` if that date should be disabled, `false` otherwise.
    */
   disabledDates?: Date[] | ((date: Date) => boolean);
+  /**
+   * The minimum number of days of a range in `Range` mode, counting both `from` and `to`
+   * (e.g. `3` for 1 to 3 March). While `from` is picked, days that would end a shorter range are disabled.
+   */
+  minRangeDays?: number;
+  /**
+   * The maximum number of days of a range in `Range` mode, counting both `from` and `to`.
+   * While `from` is picked, days that would end a longer range are disabled.
+   */
+  maxRangeDays?: number;
+  /**
+   * How a range in `Range` mode that would span disabled days is handled, see `RangeCrossesDisabled`.
+   * Defaults to "allow".
+   */
+  rangeCrossesDisabled?: RangeCrossesDisabled;
   /**
    * If true, allows selection of time (hours and minutes) along with the date.
-   * A time picker interface will be shown below the calendar.
+   * A time picker interface will be shown below the calendar; in `Range` mode there are
+   * two, labeled "Start" and "End", for the times of `from` and `to`.
    * Defaults to `false`.
    */
   enableTime?: boolean;
+  /**
+   * The hour cycle of the time picker: `12` renders hours 1-12 with an AM/PM selector, `24` renders hours 0-23.
+   * The time format appended to the displayed value follows the cycle ("hh:mm K" or "HH:mm").
+   * Defaults to `12`.
+   */
+  hourCycle?: HourCycle;
+  /**
+   * If true, the time picker includes a seconds selector and the default time format includes seconds.
+   * Defaults to `false`.
+   */
+  showSeconds?: boolean;
+  /**
+   * The interval between the minutes offered by the time picker, e.g. `15` for 00, 15, 30 and 45.
+   * Defaults to `1`.
+   */
+  minuteStep?: number;
+  /**
+   * The interval between the seconds offered by the time picker when `showSeconds` is true.
+   * Defaults to `1`.
+   */
+  secondStep?: number;
+  /**
+   * The earliest selectable time of day, applied to every date when `enableTime` is true.
+   */
+  minTime?: TimeValue;
+  /**
+   * The latest selectable time of day, applied to every date when `enableTime` is true.
+   */
+  maxTime?: TimeValue;
+  /**
+   * A function that returns `true` for times that cannot be selected, e.g. lunch hours.
+   * Receives the time and the date it applies to (`null` if no date is picked yet).
+   * Disabled times are rendered as disabled options in the time picker, and a change
+   * to a disabled time snaps to the nearest allowed time.
+   */
+  disabledTimes?: (time: TimeValue, date: Date | null) => boolean;
+  /**
+   * If true, the input field accepts typed or pasted text. The text is parsed using the
+   * effective date format and committed when the input loses focus or Enter is pressed.
+   * Range values are written as "from to to" (or "from - to"), multiple values are comma-separated.
+   * Defaults to `false`.
+   */
+  editable?: boolean;
+  /**
+   * If true, the selection can be cleared: with a clear (×) button in the input, with Delete or
+   * Backspace in a read-only input, and with a "Clear" button in the picker's footer.
+   * Clearing emits `null`, `[]` in `Multiple` mode, or `{ from: null, to: null }` in range modes.
+   * Defaults to `false`.
+   */
+  clearable?: boolean;
+  /**
+   * If true, changes made in the open picker are held as a draft instead of calling `onChange` right away,
+   * and the picker does not close after a selection. A footer offers "Today" (selects or shows today),
+   * "Cancel" and "Apply": Apply emits the draft via `onChange` and closes the picker; Cancel, Escape and
+   * closing the picker otherwise discard it. Text typed into an `editable` input is committed directly.
+   * Useful with `enableTime`, where every click is a change.
+   * Defaults to `false`.
+   */
+  confirmMode?: boolean;
+  /**
+   * Callback invoked when text typed into an `editable` input cannot be parsed
+   * into a valid, selectable value. Receives the raw input text.
+   */
+  onParseError?: (input: string) => void;
+  /**
+   * BCP 47 locale tag (e.g. "en-US", "de-DE", "bn-BD") used for month and day names, digits,
+   * AM/PM markers and the first day of the week. Names are resolved through `Intl.DateTimeFormat`.
+   * If omitted, English names and a Sunday week start are used.
+   */
+  locale?: string;
+  /**
+   * The first day of the week (0 for Sunday, 1 for Monday, ..., 6 for Saturday).
+   * Rotates the day-name header and the calendar grid, and sets the week used by Home/End keyboard navigation.
+   * Use `1` for ISO-8601 (Monday-first) calendars.
+   * Defaults to the first day of the week of `locale` (Sunday if no locale is given).
+   */
+  weekStartsOn?: WeekDay;
+  /**
+   * If true, a column of week numbers is shown to the left of the day grid.
+   * In `Week` and `Range` modes, clicking a week number selects the whole week.
+   * Defaults to `false`.
+   */
+  showWeekNumbers?: boolean;
+  /**
+   * The numbering scheme used for the week number column.
+   * Defaults to `WeekNumbering.ISO`.
+   */
+  weekNumbering?: WeekNumbering;
+  /**
+   * The month in which the fiscal year starts (0 for January, ..., 11 for December).
+   * Determines the quarters shown in the Quarters view, selected in `Quarter` mode,
+   * and output by the `Q`/`QQ` format tokens.
+   * Defaults to 0 (calendar quarters).
+   */
+  fiscalYearStartMonth?: number;
+  /**
+   * The number of consecutive months shown side by side in the Days view (stacked on narrow screens).
+   * Keyboard focus and range hover previews flow across the month panels.
+   * Defaults to 1.
+   */
+  numberOfMonths?: number;
+  /**
+   * If true, the header's previous/next buttons step by `numberOfMonths` (a whole page)
+   * instead of by one month.
+   * Defaults to `false`.
+   */
+  pagedNavigation?: boolean;
+  /**
+   * Presets rendered in a sidebar next to the calendar. Clicking a preset selects its resolved value.
+   * The preset matching the current value is highlighted, and presets whose value is outside
+   * `minDate`/`maxDate` or contains disabled dates are disabled (ranges are clamped to `minDate`/`maxDate`).
+   * See the built-in presets such as `lastDaysPreset` and `thisMonthPreset`.
+   */
+  presets?: ChronoPickPreset[];
+  /**
+   * Renders the content of a day cell in the Days view, e.g. the day number with a price or event dots.
+   * The cell's button, with its id, ARIA attributes, state classes and handlers, is still rendered around it.
+   * Defaults to the (localized) day number.
+   * @param date The date of the cell.
+   * @param states The states of the day (selected, disabled, today, in range, etc.).
+   */
+  renderDay?: (date: Date, states: DayState[]) => ReactNode;
+  /**
+   * Renders a custom header in place of the built-in navigation header.
+   * Receives the picker's state and handlers, e.g. `currentMonthDate`, `currentView`,
+   * `navigatePeriod` and `setCurrentView`. Its buttons take part in the picker's Tab navigation.
+   * @param coreState The state and handlers of the picker.
+   */
+  renderHeader?: (coreState: ChronoPickCoreState) => ReactNode;
+  /**
+   * Renders a footer below the calendar (and time picker), e.g. with actions or a legend.
+   * Its buttons take part in the picker's Tab navigation.
+   * @param coreState The state and handlers of the picker.
+   */
+  renderFooter?: (coreState: ChronoPickCoreState) => ReactNode;
+  /**
+   * Named sets of days to mark in the Days view, e.g. `{ holiday: [...], booked: (date) => ... }`.
+   * Each set is an array of dates or a predicate, which like `disabledDates` receives the start of the
+   * day in `timeZone`. A matching day cell gets a `data-<name>` attribute (the name in kebab case,
+   * e.g. `data-sold-out` for `soldOut`) and the class from `modifierClassNames`, or `chronopick-day-<name>`.
+   */
+  modifiers?: Record<string, Date[] | ((date: Date) => boolean)>;
+  /** Class names for the day cells matching each of the `modifiers`, e.g. `{ holiday: "text-red-600" }`. */
+  modifierClassNames?: Record<string, string>;
+  /**
+   * Supplies extra information about a day in the Days view: a `badge` shown in its cell and a
+   * `description` appended to its aria-label. Receives the start of the day in `timeZone`.
+   */
+  dayMeta?: (date: Date) => ChronoPickDayMeta | undefined;
+  /** Whether the picker is open. If omitted, the picker opens and closes itself, starting at `defaultOpen`. */
+  open?: boolean;
+  /** Whether an uncontrolled picker (without `open`) is initially open. Defaults to `false`. */
+  defaultOpen?: boolean;
+  /**
+   * Callback function invoked when the picker requests to open or close, e.g. on input focus,
+   * on a click outside, on Escape or after a selection.
+   */
+  onOpenChange?: (open: boolean) => void;
+  /** The current view of the calendar (Days, Months, Quarters or Years). If omitted, the picker switches views itself. */
+  view?: CalendarView;
+  /** Callback function invoked when the picker switches to another view. */
+  onViewChange?: (view: CalendarView) => void;
+  /**
+   * A date in the first displayed month. If omitted, the picker navigates months itself.
+   * Use with `onMonthChange` to keep two pickers in sync.
+   */
+  month?: Date;
+  /** Callback function invoked when the displayed month changes, with a date in the new first displayed month. */
+  onMonthChange?: (month: Date) => void;
+  /**
+   * The name under which the selected value is submitted with a surrounding `<form>`. If set, the value
+   * is held in hidden inputs: one per date in `Multiple` mode, `<name>[from]` and `<name>[to]` in modes
+   * whose value is a `DateRange` (`Range`, `Week`, `MonthRange`, `YearRange`, `Quarter`), and one otherwise. See `serializeDate` for the format.
+   */
+  name?: string;
+  /**
+   * If true, the form cannot be submitted without a selection (a complete range in range modes).
+   * The picker reports this through the form's constraint validation (`setCustomValidity`).
+   */
+  required?: boolean;
+  /** The id of the `<form>` the picker's fields belong to, if the picker is not inside it. */
+  form?: string;
+  /**
+   * Converts a selected date to the string submitted with the form. Defaults to ISO-8601:
+   * "YYYY-MM-DD", or the full date and time in UTC (e.g. "2024-03-10T14:30:00.000Z") when `enableTime` is true.
+   */
+  serializeDate?: (date: Date) => string;
+  /**
+   * Validates the selected value after the built-in checks (`required`, `minDate`/`maxDate`,
+   * `disabledDates`, `minRangeDays`/`maxRangeDays`) have passed. Return an error message or error object,
+   * or `null` if the value is valid. The error is shown below the input and blocks form submission.
+   */
+  validate?: (
+    value: SelectedDateType
+  ) => string | ChronoPickValidationError | null | undefined;
+  /** Callback function invoked when the validation result changes, with the error or `null` if the value is valid. */
+  onValidate?: (error: ChronoPickValidationError | null) => void;
+  /**
+   * IANA time zone name (e.g. "America/New_York", "Asia/Dhaka") in which the calendar operates.
+   * The calendar grid, "today", the time picker, the displayed and parsed text, and day comparisons
+   * use the wall-clock time in this zone, while `value`, `onChange`, `minDate`, `maxDate` and
+   * `disabledDates` keep using `Date` instants.
+   * Defaults to the browser's local time zone.
+   */
+  timeZone?: string;
+  /**
+   * How a selected wall-clock time that falls into a DST gap (does not exist) or overlap (exists twice)
+   * in `timeZone` is converted to an instant:
+   * - `"compatible"`: gap times move forward by the length of the gap, overlap times use the earlier instant.
+   * - `"earlier"` / `"later"`: the earlier or later of the two possible instants.
+   * - `"reject"`: the selection is ignored and `onChange` is not called.
+   * Defaults to `"compatible"`.
+   */
+  timeZoneDisambiguation?: TimeZoneDisambiguation;
+  className?: string;
+}
+
+/**
+ * Type representing a time picked with `ChronoTimePick`: a `Date`, whose time of day is edited
+ * while its date is kept, or a plain `TimeValue`.
+ */
+export type TimeInputValue = Date | TimeValue;
+
+/**
+ * Interface representing a range of times picked with `ChronoTimePick` in `Range` mode.
+ * Either endpoint is `null` until it is picked.
+ */
+export interface TimeRange {
+  /** The start time of the range. */
+  from: TimeInputValue | null;
+  /** The end time of the range. */
+  to: TimeInputValue | null;
+}
+
+/**
+ * Type representing the possible shapes of the value of `ChronoTimePick`:
+ * - `TimeInputValue`: For `ChronoPickMode.Single`.
+ * - `TimeRange`: For `ChronoPickMode.Range`.
+ * - `null`: If no time is selected.
+ */
+export type SelectedTimeType = TimeInputValue | TimeRange | null;
+
+/**
+ * Props for the ChronoTimePick component, a standalone time picker.
+ */
+export interface ChronoTimePickProps {
+  /**
+   * The selection mode: `ChronoPickMode.Single` picks one time, `ChronoPickMode.Range` a start and end time.
+   * Defaults to `ChronoPickMode.Single`.
+   */
+  mode?: ChronoPickMode.Single | ChronoPickMode.Range;
+  /**
+   * The currently selected time(s). The shape depends on `mode`, see `SelectedTimeType`.
+   * A changed time keeps the shape of the time it replaces: a `Date` is emitted as a `Date` on the same day,
+   * a `TimeValue` as a `TimeValue`. A time picked without a previous value is a `TimeValue`, or, for a range endpoint,
+   * a `Date` on the day of the other endpoint if that is a `Date`.
+   */
+  value: SelectedTimeType;
+  /**
+   * Callback function invoked when the selected time(s) change.
+   * In `Range` mode, `from` is kept at or before `to` by moving the other endpoint along.
+   * @param value The new selected time(s).
+   */
+  onChange: (value: SelectedTimeType) => void;
+  /**
+   * Placeholder text for the input field when no time is selected.
+   * Defaults to "Select Time".
+   */
+  placeholder?: string;
+  /**
+   * If true, the picker is rendered inline (always visible) instead of as a dropdown.
+   * Defaults to `false`.
+   */
+  inline?: boolean;
+  /**
+   * The preferred placement of the picker relative to the input, e.g. "bottom-start" (below the input,
+   * aligned with its left edge) or "right" (right of the input, centered). If the picker does not fit,
+   * it flips to the opposite side and shifts to stay within the viewport. Ignored if `inline` is true.
+   * Defaults to "bottom-start".
+   */
+  placement?: PopoverPlacement;
+  /**
+   * The distance between the input and the picker, in pixels.
+   * Defaults to `2`.
+   */
+  offset?: number;
+  /**
+   * If true, the picker shows an arrow pointing at the input. Ignored if `inline` is true.
+   * Defaults to `false`.
+   */
+  showArrow?: boolean;
+  /**
+   * The hour cycle: `12` renders hours 1-12 with an AM/PM column, `24` renders hours 0-23.
+   * Defaults to `12`.
+   */
+  hourCycle?: HourCycle;
+  /**
+   * If true, a seconds column is rendered and seconds are part of the displayed value.
+   * Defaults to `false`.
+   */
+  showSeconds?: boolean;
+  /**
+   * The interval between the offered minutes, e.g. `15` for 00, 15, 30 and 45.
+   * Defaults to `1`.
+   */
+  minuteStep?: number;
+  /**
+   * The interval between the offered seconds when `showSeconds` is true.
+   * Defaults to `1`.
+   */
+  secondStep?: number;
+  /** The earliest selectable time of day. */
+  minTime?: TimeValue;
+  /** The latest selectable time of day. */
+  maxTime?: TimeValue;
+  /**
+   * A function that returns `true` for times that cannot be selected.
+   * A change to a disabled time snaps to the nearest allowed time.
+   */
+  disabledTimes?: (time: TimeValue) => boolean;
+  /**
+   * The format of the displayed time(s), using the time tokens of `dateFormat`.
+   * Defaults to a format following `hourCycle` and `showSeconds` (e.g., "hh:mm K").
+   */
+  timeFormat?: string;
+  /**
+   * BCP 47 locale tag used for the AM/PM markers and digits.
+   * If omitted, English markers are used.
+   */
+  locale?: string;
   className?: string;
 }
 
@@ -129,6 +646,8 @@ export enum CalendarView {
   Days = "days",
   /** View for selecting a month within the current year. */
   Months = "months",
+  /** View for selecting a quarter within the current fiscal year. */
+  Quarters = "quarters",
   /** View for selecting a year from a range of years. */
   Years = "years",
 }
@@ -1,15 +1,49 @@
 
+import { ChronoPickMode } from "../types/TChronoPick";
+
 /** Default date format string used if no `dateFormat` prop is provided to ChronoPick. */
 export const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+/** Default format string for `ChronoPickMode.Month` and `MonthRange`. */
+export const DEFAULT_MONTH_FORMAT = "MMMM YYYY";
+/** Default format string for `ChronoPickMode.Year` and `YearRange`. */
+export const DEFAULT_YEAR_FORMAT = "YYYY";
+/** Default format string for `ChronoPickMode.Quarter`, e.g. "Q1 2024". */
+export const DEFAULT_QUARTER_FORMAT = "[Q]Q YYYY";
 /** Default time format string, appended to `dateFormat` when `enableTime` is true in ChronoPick. */
 export const DEFAULT_TIME_FORMAT = "hh:mm K"; // K represents AM/PM
+/** Default time format string for a 24-hour `hourCycle`. */
+export const DEFAULT_TIME_FORMAT_24H = "HH:mm";
+/** Default time format string when `showSeconds` is true. */
+export const DEFAULT_TIME_FORMAT_WITH_SECONDS = "hh:mm:ss K";
+/** Default time format string for a 24-hour `hourCycle` when `showSeconds` is true. */
+export const DEFAULT_TIME_FORMAT_24H_WITH_SECONDS = "HH:mm:ss";
 
 /** Short names for days of the week, starting with Sunday. Used for calendar headers. */
 export const DAY_NAMES_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+/** Full names for days of the week, starting with Sunday. Used for formatting and ARIA labels. */
+export const DAY_NAMES_FULL = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 /** Short names for months (0-indexed: Jan=0, Feb=1, etc.). Used for display in some contexts. */
 export const MONTH_NAMES_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 /** Full names for months (0-indexed). Used for display and ARIA labels. */
 export const MONTH_NAMES_FULL = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
 /** Number of years to display in a single grid in the "Years" view of the calendar. */
-export const YEARS_PER_VIEW = 12;
\ No newline at end of file
+export const YEARS_PER_VIEW = 12;
+
+/** Selection modes whose value is a `DateRange`. */
+export const RANGE_VALUE_MODES: ChronoPickMode[] = [
+  ChronoPickMode.Range,
+  ChronoPickMode.Week,
+  ChronoPickMode.MonthRange,
+  ChronoPickMode.YearRange,
+  ChronoPickMode.Quarter,
+];
+
+/** Selection modes that pick whole months, quarters or years rather than days (no time selection). */
+export const PERIOD_MODES: ChronoPickMode[] = [
+  ChronoPickMode.Month,
+  ChronoPickMode.Year,
+  ChronoPickMode.MonthRange,
+  ChronoPickMode.YearRange,
+  ChronoPickMode.Quarter,
+];
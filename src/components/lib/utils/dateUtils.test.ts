@@ -0,0 +1,478 @@
+import { describe, expect, it } from "vitest";
+import { ChronoPickMode, WeekNumbering } from "../types/TChronoPick";
+import {
+  createRangeEndResolver,
+  formatDate,
+  getWeekNumber,
+  parseDate,
+  parseDateInput,
+  resolveRangeEnd,
+} from "./dateUtils";
+
+/** Tuesday, 5 March 2024, 14:07:09 local time. */
+const date = new Date(2024, 2, 5, 14, 7, 9);
+
+describe("formatDate", () => {
+  it.each([
+    ["YYYY", "2024"],
+    ["YY", "24"],
+    ["QQ", "01"],
+    ["Q", "1"],
+    ["MMMM", "March"],
+    ["Month", "March"],
+    ["MMM", "Mar"],
+    ["Mon", "Mar"],
+    ["MM", "03"],
+    ["M", "3"],
+    ["DD", "05"],
+    ["D", "5"],
+    ["dddd", "Tuesday"],
+    ["ddd", "Tue"],
+    ["Day", "Tue"],
+  ])("formats the date token %s", (format, expected) => {
+    expect(formatDate(date, format)).toBe(expected);
+  });
+
+  it.each([
+    ["HH", "14"],
+    ["H", "14"],
+    ["hh", "02"],
+    ["h", "2"],
+    ["mm", "07"],
+    ["m", "7"],
+    ["ss", "09"],
+    ["s", "9"],
+    ["K", "PM"],
+  ])("formats the time token %s", (format, expected) => {
+    expect(formatDate(date, format, true)).toBe(expected);
+  });
+
+  it("outputs time tokens as literal text when time is disabled", () => {
+    expect(formatDate(date, "YYYY-MM-DD HH:mm")).toBe("2024-03-05 HH:mm");
+  });
+
+  it("prefers the longest token at each position", () => {
+    expect(formatDate(date, "MMMMM")).toBe("March3");
+    expect(formatDate(date, "Month Mon")).toBe("March Mar");
+    expect(formatDate(date, "MM/mm", true)).toBe("03/07");
+  });
+
+  it("outputs text in square brackets literally", () => {
+    expect(formatDate(date, "D [of] MMMM [at] HH:mm", true)).toBe(
+      "5 of March at 14:07"
+    );
+    expect(formatDate(date, "[YYYY] YYYY")).toBe("YYYY 2024");
+    expect(formatDate(date, "[Q]Q YYYY")).toBe("Q1 2024");
+  });
+
+  it("keeps an unclosed bracket as literal text", () => {
+    expect(formatDate(date, "[YYYY")).toBe("[2024");
+  });
+
+  it("counts quarters from the fiscal year start", () => {
+    expect(formatDate(date, "Q", false, { fiscalYearStartMonth: 3 })).toBe(
+      "4"
+    );
+  });
+
+  it("maps midnight and noon to 12 on the 12-hour clock", () => {
+    expect(formatDate(new Date(2024, 0, 1, 0, 0), "hh:mm K", true)).toBe(
+      "12:00 AM"
+    );
+    expect(formatDate(new Date(2024, 0, 1, 12, 0), "hh:mm K", true)).toBe(
+      "12:00 PM"
+    );
+  });
+
+  it("pads years below 1000 to four digits", () => {
+    const early = new Date(2000, 0, 1);
+    early.setFullYear(42);
+    expect(formatDate(early, "YYYY-MM-DD")).toBe("0042-01-01");
+  });
+
+  it("localizes names and digits", () => {
+    expect(formatDate(date, "D MMMM YYYY", false, { locale: "de-DE" })).toBe(
+      "5 März 2024"
+    );
+    expect(formatDate(date, "DD/MM/YYYY", false, { locale: "ar-EG" })).toBe(
+      "٠٥/٠٣/٢٠٢٤"
+    );
+  });
+});
+
+describe("parseDate", () => {
+  /** Checks the local date and time fields of a parsed date. */
+  const expectFields = (
+    parsed: Date | null,
+    [year, month, day, hours = 0, minutes = 0, seconds = 0]: number[]
+  ) => {
+    expect(parsed).not.toBeNull();
+    expect([
+      parsed!.getFullYear(),
+      parsed!.getMonth(),
+      parsed!.getDate(),
+      parsed!.getHours(),
+      parsed!.getMinutes(),
+      parsed!.getSeconds(),
+    ]).toEqual([year, month, day, hours, minutes, seconds]);
+  };
+
+  it("parses numeric tokens with a variable number of digits", () => {
+    expectFields(parseDate("2024-3-5", "YYYY-MM-DD"), [2024, 2, 5]);
+    expectFields(parseDate("2024-03-05", "YYYY-M-D"), [2024, 2, 5]);
+    expectFields(parseDate("5.3.2024", "D.M.YYYY"), [2024, 2, 5]);
+  });
+
+  it("resolves two-digit years to the nearest century", () => {
+    const century = Math.floor(new Date().getFullYear() / 100) * 100;
+    expect(parseDate("01/01/24", "DD/MM/YY")?.getFullYear()).toBe(
+      century + 24
+    );
+  });
+
+  it("parses month names case-insensitively, including legacy aliases", () => {
+    expectFields(parseDate("march 5, 2024", "MMMM D, YYYY"), [2024, 2, 5]);
+    expectFields(parseDate("MAR 5 2024", "Mon D YYYY"), [2024, 2, 5]);
+    expectFields(parseDate("March 5 2024", "Month D YYYY"), [2024, 2, 5]);
+  });
+
+  it("accepts weekday names without using them", () => {
+    expectFields(
+      parseDate("Friday, 2024-03-05", "dddd, YYYY-MM-DD"),
+      [2024, 2, 5]
+    );
+    expectFields(parseDate("Sun 2024-03-05", "ddd YYYY-MM-DD"), [2024, 2, 5]);
+  });
+
+  it("parses a quarter without a month as the quarter's first month", () => {
+    expectFields(parseDate("Q3 2024", "[Q]Q YYYY"), [2024, 6, 1]);
+    expectFields(
+      parseDate("Q1 2024", "[Q]Q YYYY", false, { fiscalYearStartMonth: 3 }),
+      [2024, 3, 1]
+    );
+  });
+
+  it("parses 24-hour and 12-hour times", () => {
+    expectFields(
+      parseDate("2024-03-05 14:07:09", "YYYY-MM-DD HH:mm:ss", true),
+      [2024, 2, 5, 14, 7, 9]
+    );
+    expectFields(
+      parseDate("2024-03-05 2:07 PM", "YYYY-MM-DD h:mm K", true),
+      [2024, 2, 5, 14, 7]
+    );
+    expectFields(
+      parseDate("2024-03-05 12:00 am", "YYYY-MM-DD hh:mm K", true),
+      [2024, 2, 5, 0, 0]
+    );
+  });
+
+  it("matches text in square brackets literally", () => {
+    expectFields(
+      parseDate(
+        "5 of March 2024 at 14:07",
+        "D [of] MMMM YYYY [at] HH:mm",
+        true
+      ),
+      [2024, 2, 5, 14, 7]
+    );
+  });
+
+  it("parses years below 100 without mapping them to the 1900s", () => {
+    expectFields(parseDate("0042-01-01", "YYYY-MM-DD"), [42, 0, 1]);
+  });
+
+  it.each([
+    ["", "YYYY-MM-DD"],
+    ["2024-02-30", "YYYY-MM-DD"],
+    ["2024-13-01", "YYYY-MM-DD"],
+    ["2024-00-10", "YYYY-MM-DD"],
+    ["2024/03/05", "YYYY-MM-DD"],
+    ["2024-03-05x", "YYYY-MM-DD"],
+    ["2024-03", "YYYY-MM-DD"],
+    ["March", "MMMM D"],
+    ["Q5 2024", "[Q]Q YYYY"],
+    ["Smarch 5", "MMMM D"],
+  ])("returns null for %j with the format %j", (input, format) => {
+    expect(parseDate(input, format)).toBeNull();
+  });
+
+  it.each([
+    ["2024-03-05 24:00", "YYYY-MM-DD HH:mm"],
+    ["2024-03-05 10:60", "YYYY-MM-DD HH:mm"],
+    ["2024-03-05 10:00:60", "YYYY-MM-DD HH:mm:ss"],
+    ["2024-03-05 13:00 PM", "YYYY-MM-DD hh:mm K"],
+    ["2024-03-05 0:00 AM", "YYYY-MM-DD h:mm K"],
+    ["2024-03-05 10:00 XM", "YYYY-MM-DD hh:mm K"],
+  ])("returns null for the invalid time %j", (input, format) => {
+    expect(parseDate(input, format, true)).toBeNull();
+  });
+});
+
+describe("formatDate and parseDate round-trip", () => {
+  const formats = [
+    "YYYY-MM-DD HH:mm:ss",
+    "DD/MM/YYYY hh:mm:ss K",
+    "dddd, D MMMM YYYY H:m:s",
+    "ddd D MMM YYYY [at] h:mm:ss K",
+    "M/D/YYYY HH:mm:ss",
+  ];
+  /** Dates across the year, including single-digit fields, midnight and noon. */
+  const dates = [
+    new Date(2024, 0, 1, 0, 0, 0),
+    new Date(2024, 1, 29, 12, 30, 5),
+    new Date(2023, 8, 9, 9, 9, 9),
+    new Date(2025, 11, 31, 23, 59, 59),
+  ];
+
+  /** Checks that a date formatted with `format` parses back to the same date. */
+  const expectRoundTrip = (original: Date, format: string) =>
+    expect(parseDate(formatDate(original, format), format)?.getTime()).toBe(
+      original.getTime()
+    );
+
+  describe.each(["en-US", "de-DE", "ar-EG", "ja-JP"])("in %s", (locale) => {
+    it.each(formats)("round-trips %j", (format) => {
+      for (const original of dates) {
+        const text = formatDate(original, format, true, { locale });
+        expect(parseDate(text, format, true, { locale })?.getTime()).toBe(
+          original.getTime()
+        );
+      }
+    });
+  });
+
+  it("splits adjacent numeric tokens to parse back the formatted date", () => {
+    const early = new Date(2024, 0, 5, 1, 5);
+    expect(formatDate(early, "Hm", true)).toBe("15");
+    expect(parseDate("15", "Hm", true)?.getHours()).toBe(1);
+    expect(parseDate("15", "Hm", true)?.getMinutes()).toBe(5);
+    expectRoundTrip(new Date(2024, 10, 25), "YYYYMMDD");
+    expectRoundTrip(new Date(2024, 10, 25), "YYYYMD");
+  });
+
+  it("rejects digits that split into different dates", () => {
+    // January 21 and December 1 both format to "2024121"
+    expect(formatDate(new Date(2024, 0, 21), "YYYYMD")).toBe("2024121");
+    expect(formatDate(new Date(2024, 11, 1), "YYYYMD")).toBe("2024121");
+    expect(parseDate("2024121", "YYYYMD")).toBeNull();
+    // 1:23 and 12:03 both format to "123"
+    expect(parseDate("123", "Hm", true)).toBeNull();
+  });
+
+  it("resolves YY within 50 years of the current year", () => {
+    const year = new Date().getFullYear() - 60;
+    const text = formatDate(new Date(year, 0, 1), "YY-MM-DD");
+    expect(parseDate(text, "YY-MM-DD")?.getFullYear()).toBe(year + 100);
+  });
+
+  it("writes ar-EG dates with Arabic-Indic digits", () => {
+    expect(
+      formatDate(dates[1], "YYYY-MM-DD HH:mm:ss", true, { locale: "ar-EG" })
+    ).toBe("٢٠٢٤-٠٢-٢٩ ١٢:٣٠:٠٥");
+  });
+});
+
+describe("getWeekNumber", () => {
+  it.each([
+    [new Date(2025, 0, 1), 1],
+    [new Date(2025, 0, 4), 1],
+    [new Date(2025, 0, 5), 2],
+    [new Date(2024, 11, 28), 52],
+    // Dec 29-31 share a week with Jan 1, 2025
+    [new Date(2024, 11, 29), 1],
+    [new Date(2024, 11, 31), 1],
+    // Jan 1, 2023 starts a new week, so Dec 31, 2022 stays in week 53
+    [new Date(2022, 11, 31), 53],
+  ])("numbers %s as US week %i", (day, week) => {
+    expect(getWeekNumber(day, WeekNumbering.US)).toBe(week);
+  });
+
+  it.each([
+    [new Date(2024, 11, 30), 1],
+    [new Date(2021, 0, 1), 53],
+    [new Date(2020, 11, 31), 53],
+    [new Date(2024, 2, 5), 10],
+  ])("numbers %s as ISO week %i", (day, week) => {
+    expect(getWeekNumber(day)).toBe(week);
+  });
+});
+
+describe("resolveRangeEnd", () => {
+  /** A range starts on March 10, 2024; March 5 and March 14 are disabled. */
+  const from = new Date(2024, 2, 10);
+  const isDisabled = (day: Date) =>
+    day.getMonth() === 2 && [5, 14].includes(day.getDate());
+  const march = (day: number, hours = 0, minutes = 0) =>
+    new Date(2024, 2, day, hours, minutes);
+
+  it("returns the picked day when picking the start again", () => {
+    expect(resolveRangeEnd(from, march(10, 9), { isDisabled })).toEqual(
+      march(10, 9)
+    );
+  });
+
+  it("allows ranges across disabled days by default", () => {
+    expect(resolveRangeEnd(from, march(20), { isDisabled })).toEqual(
+      march(20)
+    );
+    expect(resolveRangeEnd(from, march(1), { isDisabled })).toEqual(march(1));
+  });
+
+  it("applies minRangeDays and maxRangeDays, counting both endpoints", () => {
+    const options = { isDisabled, minRangeDays: 3, maxRangeDays: 7 };
+    expect(resolveRangeEnd(from, march(11), options)).toBeNull();
+    expect(resolveRangeEnd(from, march(12), options)).toEqual(march(12));
+    expect(resolveRangeEnd(from, march(16), options)).toEqual(march(16));
+    expect(resolveRangeEnd(from, march(17), options)).toBeNull();
+    expect(resolveRangeEnd(from, march(4), options)).toEqual(march(4));
+    expect(resolveRangeEnd(from, march(3), options)).toBeNull();
+  });
+
+  it("blocks ranges across disabled days", () => {
+    const options = { isDisabled, rangeCrossesDisabled: "block" as const };
+    expect(resolveRangeEnd(from, march(13), options)).toEqual(march(13));
+    expect(resolveRangeEnd(from, march(15), options)).toBeNull();
+    expect(resolveRangeEnd(from, march(6), options)).toEqual(march(6));
+    expect(resolveRangeEnd(from, march(4), options)).toBeNull();
+  });
+
+  it("truncates ranges before the first disabled day, keeping the picked time", () => {
+    const options = { isDisabled, rangeCrossesDisabled: "truncate" as const };
+    expect(resolveRangeEnd(from, march(20, 14, 30), options)).toEqual(
+      march(13, 14, 30)
+    );
+    expect(resolveRangeEnd(from, march(1), options)).toEqual(march(6));
+    expect(resolveRangeEnd(from, march(13), options)).toEqual(march(13));
+  });
+
+  it("applies the length limits to the truncated range", () => {
+    const truncate = { isDisabled, rangeCrossesDisabled: "truncate" as const };
+    // March 10-13 is 4 days long
+    expect(
+      resolveRangeEnd(from, march(20), { ...truncate, maxRangeDays: 4 })
+    ).toEqual(march(13));
+    expect(
+      resolveRangeEnd(from, march(20), { ...truncate, maxRangeDays: 3 })
+    ).toBeNull();
+    expect(
+      resolveRangeEnd(from, march(20), { ...truncate, minRangeDays: 5 })
+    ).toBeNull();
+  });
+});
+
+describe("createRangeEndResolver", () => {
+  it("searches the disabled days around the start once for all picked days", () => {
+    let checks = 0;
+    const resolve = createRangeEndResolver(new Date(2024, 2, 10), {
+      rangeCrossesDisabled: "block",
+      isDisabled: (day) => {
+        checks++;
+        return day.getDate() === 14;
+      },
+    });
+    for (let day = 1; day <= 31; day++)
+      expect(resolve(new Date(2024, 2, day)) === null).toBe(day > 14);
+    // March 11-14 after the start and March 9-2 before it
+    expect(checks).toBe(4 + 8);
+  });
+});
+
+describe("parseDateInput", () => {
+  const jan2 = new Date(2024, 0, 2);
+  const may1 = new Date(2024, 4, 1);
+
+  it.each([
+    [ChronoPickMode.Single, null],
+    [ChronoPickMode.Range, { from: null, to: null }],
+    [ChronoPickMode.Multiple, []],
+  ])("returns the empty value of %s for blank text", (mode, expected) => {
+    expect(parseDateInput("  ", mode, "YYYY-MM-DD")).toEqual(expected);
+  });
+
+  it("parses a single date, or undefined for invalid text", () => {
+    expect(
+      parseDateInput("2024-01-02", ChronoPickMode.Single, "YYYY-MM-DD")
+    ).toEqual(jan2);
+    expect(
+      parseDateInput("2024-01-32", ChronoPickMode.Single, "YYYY-MM-DD")
+    ).toBeUndefined();
+  });
+
+  it.each([
+    "2024-01-02 to 2024-05-01",
+    "2024-01-02 - 2024-05-01",
+    "2024-01-02 – 2024-05-01",
+    "2024-05-01 to 2024-01-02",
+  ])("parses the range %j", (text) => {
+    expect(parseDateInput(text, ChronoPickMode.Range, "YYYY-MM-DD")).toEqual({
+      from: jan2,
+      to: may1,
+    });
+  });
+
+  it("parses an open range", () => {
+    for (const text of ["2024-01-02", "2024-01-02 to ...", "2024-01-02 - …"])
+      expect(parseDateInput(text, ChronoPickMode.Range, "YYYY-MM-DD")).toEqual(
+        { from: jan2, to: null }
+      );
+  });
+
+  it("splits ranges whose format contains a separator", () => {
+    const format = "DD - MM - YYYY";
+    expect(
+      parseDateInput(
+        "02 - 01 - 2024 - 01 - 05 - 2024",
+        ChronoPickMode.Range,
+        format
+      )
+    ).toEqual({ from: jan2, to: may1 });
+    expect(
+      parseDateInput("02 - 01 - 2024", ChronoPickMode.Range, format)
+    ).toEqual({ from: jan2, to: null });
+    expect(
+      parseDateInput(
+        "02 - 01 - 2024 to 01 - 05 - 2024",
+        ChronoPickMode.Range,
+        format
+      )
+    ).toEqual({ from: jan2, to: may1 });
+  });
+
+  it("rejects ranges with an invalid endpoint", () => {
+    expect(
+      parseDateInput(
+        "2024-01-02 to 2024-13-01",
+        ChronoPickMode.Range,
+        "YYYY-MM-DD"
+      )
+    ).toBeUndefined();
+    expect(
+      parseDateInput("2024-01-02 to", ChronoPickMode.Range, "YYYY-MM-DD")
+    ).toBeUndefined();
+  });
+
+  it("parses comma-separated dates, also with commas in the format", () => {
+    expect(
+      parseDateInput(
+        "2024-01-02, 2024-05-01",
+        ChronoPickMode.Multiple,
+        "YYYY-MM-DD"
+      )
+    ).toEqual([jan2, may1]);
+    expect(
+      parseDateInput(
+        "Jan 2, 2024, May 1, 2024",
+        ChronoPickMode.Multiple,
+        "MMM D, YYYY"
+      )
+    ).toEqual([jan2, may1]);
+    expect(
+      parseDateInput(
+        "Jan 2, 2024, May 1",
+        ChronoPickMode.Multiple,
+        "MMM D, YYYY"
+      )
+    ).toBeUndefined();
+  });
+});
@@ -1,133 +1,597 @@
+import { getLocaleData, localizeDigits, normalizeDigits } from "./localeUtils";
+import { fromZonedTime, toZonedTime } from "./timeZoneUtils";
 import {
-  MONTH_NAMES_FULL,
-  MONTH_NAMES_SHORT,
-  DAY_NAMES_SHORT,
+  DateRange,
+  CalendarView,
+  ChronoPickMode,
+  SelectedDateType,
+  WeekNumbering,
+  CalendarWeek,
+  TimeValue,
+  HourCycle,
+  RangeCrossesDisabled,
+} from "../types/TChronoPick";
+import {
+  DEFAULT_TIME_FORMAT,
+  DEFAULT_TIME_FORMAT_24H,
+  DEFAULT_TIME_FORMAT_WITH_SECONDS,
+  DEFAULT_TIME_FORMAT_24H_WITH_SECONDS,
+  RANGE_VALUE_MODES,
 } from "./constants";
-import { DateRange, CalendarView } from "../../lib/types/TChronoPick";
+
+/** Tokens for date components, recognised by `formatDate` and `parseDate`. */
+const DATE_TOKENS = [
+  "YYYY",
+  "YY",
+  "QQ",
+  "Q",
+  "MMMM",
+  "MMM",
+  "MM",
+  "M",
+  "DD",
+  "D",
+  "dddd",
+  "ddd",
+  // Legacy aliases kept for backward compatibility
+  "Month",
+  "Mon",
+  "Day",
+];
+
+/** Tokens for time components, only recognised when time is enabled. */
+const TIME_TOKENS = ["HH", "H", "hh", "h", "mm", "m", "ss", "s", "K"];
+
+/** Options shared by `formatDate`, `parseDate` and `parseDateInput`. */
+export interface DateFormatOptions {
+  /**
+   * BCP 47 locale tag (e.g. "de-DE") used for month/day names, AM/PM markers and digits.
+   * If omitted, English names and ASCII digits are used.
+   */
+  locale?: string;
+  /**
+   * The month in which the fiscal year starts (0 for January, ..., 11 for December), used by the
+   * quarter tokens `Q` and `QQ`. Defaults to 0, i.e. calendar quarters.
+   */
+  fiscalYearStartMonth?: number;
+  /**
+   * IANA time zone (e.g. "America/New_York"). `formatDate` outputs the wall-clock time of the date
+   * in this zone, and `parseDate` reads the input as a wall-clock time in this zone and returns the
+   * matching instant (DST gaps move forward, overlaps use the earlier instant).
+   * If omitted, the browser's local time zone is used.
+   */
+  timeZone?: string;
+}
+
+/** A piece of a tokenized format string: either a formatting token or literal text. */
+type FormatPart = { token: string } | { literal: string };
+
+/**
+ * Splits a format string into tokens and literal text.
+ * At each position the longest matching token wins (e.g. "MMMM" before "MM", "Month" before "M").
+ * Text enclosed in square brackets (e.g. "[at]") is always treated as literal text.
+ * @param format The format string to tokenize.
+ * @param enableTime If true, time tokens are recognised; otherwise they are treated as literal text.
+ * @returns The ordered list of format parts.
+ */
+const tokenizeFormat = (format: string, enableTime: boolean): FormatPart[] => {
+  const tokens = (enableTime ? [...DATE_TOKENS, ...TIME_TOKENS] : DATE_TOKENS)
+    .slice()
+    .sort((a, b) => b.length - a.length);
+  const parts: FormatPart[] = [];
+  let literal = "";
+  let i = 0;
+
+  while (i < format.length) {
+    if (format[i] === "[") {
+      const close = format.indexOf("]", i + 1);
+      if (close > -1) {
+        literal += format.substring(i + 1, close);
+        i = close + 1;
+        continue;
+      }
+    }
+    const token = tokens.find((t) => format.startsWith(t, i));
+    if (token) {
+      if (literal) parts.push({ literal });
+      literal = "";
+      parts.push({ token });
+      i += token.length;
+    } else {
+      literal += format[i];
+      i++;
+    }
+  }
+  if (literal) parts.push({ literal });
+  return parts;
+};
 
 /**
  * Formats a Date object into a string based on the provided format string.
- * Supports various tokens for year, month, day, and time components.
+ * The format string is tokenized, so tokens never collide with each other
+ * (e.g. "MM" vs "mm", or "Mon" inside "Month"). Wrap literal text in square brackets, e.g. "[at]".
  *
  * Supported Date Tokens:
  * - YYYY: Full year (e.g., 2023)
- * - MM: Month number (01-12)
- * - DD: Day of the month (01-31)
- * - Month: Full month name (e.g., January)
- * - Mon: Short month name (e.g., Jan)
- * - Day: Short day name (e.g., Sun)
+ * - YY: Two-digit year (e.g., 23)
+ * - QQ: Quarter, padded (01-04), counted from `options.fiscalYearStartMonth`
+ * - Q: Quarter (1-4), counted from `options.fiscalYearStartMonth`
+ * - MMMM: Full month name (e.g., January). Alias: Month
+ * - MMM: Short month name (e.g., Jan). Alias: Mon
+ * - MM: Month number, padded (01-12)
+ * - M: Month number (1-12)
+ * - DD: Day of the month, padded (01-31)
+ * - D: Day of the month (1-31)
+ * - dddd: Full day name (e.g., Sunday)
+ * - ddd: Short day name (e.g., Sun). Alias: Day
  *
  * Supported Time Tokens (if `enableTime` is true):
- * - hh: Hour (01-12 for AM/PM)
- * - mm: Minute (00-59)
- * - ss: Second (00-59) (Optional: parsing supports it, formatting can include it)
+ * - HH / H: Hour, 24-hour clock (00-23 / 0-23)
+ * - hh / h: Hour, 12-hour clock (01-12 / 1-12)
+ * - mm / m: Minute (00-59 / 0-59)
+ * - ss / s: Second (00-59 / 0-59)
  * - K: AM/PM marker
  *
+ * Names, AM/PM markers and digits follow `options.locale`; the wall-clock time follows `options.timeZone`.
+ *
  * @param date The Date object to format.
  * @param format The format string.
- * @param enableTime If true, time parts (hh, mm, ss, K) will be processed. Defaults to false.
+ * @param enableTime If true, time tokens will be processed; otherwise they are output as literal text. Defaults to false.
+ * @param options Optional formatting options, such as the locale and fiscal year start.
  * @returns The formatted date string, or an empty string if `date` is null or undefined.
  */
 export const formatDate = (
   date: Date,
   format: string,
-  enableTime: boolean = false
+  enableTime: boolean = false,
+  options: DateFormatOptions = {}
 ): string => {
   if (!date) return "";
-  let K = ""; // AM/PM
-  if (enableTime) {
-    let hours = date.getHours();
-    K = hours >= 12 ? "PM" : "AM";
-    hours = hours % 12;
-    hours = hours ? hours : 12; // the hour '0' should be '12' for 12 AM/PM format
-    format = format.replace("hh", String(hours).padStart(2, "0"));
-    format = format.replace("mm", String(date.getMinutes()).padStart(2, "0"));
-    format = format.replace("ss", String(date.getSeconds()).padStart(2, "0"));
-    format = format.replace("K", K);
-  }
+  if (options.timeZone) date = toZonedTime(date, options.timeZone);
+  const localeData = getLocaleData(options.locale);
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, "0");
+  const hours = date.getHours();
+  const hours12 = hours % 12 || 12; // the hour '0' should be '12' for 12 AM/PM format
+  const quarter = getQuarter(date, options.fiscalYearStartMonth);
 
-  format = format.replace("YYYY", String(date.getFullYear()));
-  format = format.replace("MM", String(date.getMonth() + 1).padStart(2, "0")); // Month is 0-indexed in Date, so +1
-  format = format.replace("DD", String(date.getDate()).padStart(2, "0"));
-  format = format.replace("Month", MONTH_NAMES_FULL[date.getMonth()]);
-  format = format.replace("Mon", MONTH_NAMES_SHORT[date.getMonth()]);
-  format = format.replace("Day", DAY_NAMES_SHORT[date.getDay()]);
+  /** Formats a single token of `date` using ASCII digits. */
+  const formatToken = (token: string): string => {
+    switch (token) {
+      case "YYYY":
+        return pad(date.getFullYear(), 4);
+      case "YY":
+        return pad(date.getFullYear() % 100);
+      case "QQ":
+        return pad(quarter);
+      case "Q":
+        return String(quarter);
+      case "MMMM":
+      case "Month":
+        return localeData.monthNamesFull[date.getMonth()];
+      case "MMM":
+      case "Mon":
+        return localeData.monthNamesShort[date.getMonth()];
+      case "MM":
+        return pad(date.getMonth() + 1); // Month is 0-indexed in Date, so +1
+      case "M":
+        return String(date.getMonth() + 1);
+      case "DD":
+        return pad(date.getDate());
+      case "D":
+        return String(date.getDate());
+      case "dddd":
+        return localeData.dayNamesFull[date.getDay()];
+      case "ddd":
+      case "Day":
+        return localeData.dayNamesShort[date.getDay()];
+      case "HH":
+        return pad(hours);
+      case "H":
+        return String(hours);
+      case "hh":
+        return pad(hours12);
+      case "h":
+        return String(hours12);
+      case "mm":
+        return pad(date.getMinutes());
+      case "m":
+        return String(date.getMinutes());
+      case "ss":
+        return pad(date.getSeconds());
+      case "s":
+        return String(date.getSeconds());
+      case "K":
+        return localeData.meridiems[hours >= 12 ? 1 : 0];
+      default:
+        return token;
+    }
+  };
 
-  return format;
+  return tokenizeFormat(format, enableTime)
+    .map((part) => {
+      if ("literal" in part) return part.literal;
+      // Digits of numeric tokens are localized; names are already in the locale's script
+      return localizeDigits(formatToken(part.token), localeData);
+    })
+    .join("");
 };
 
+/** The maximum number of digits read by each numeric token in `parseDate`. */
+const NUMERIC_TOKEN_DIGITS: Record<string, number> = {
+  YYYY: 4,
+  YY: 2,
+  QQ: 2,
+  Q: 2,
+  MM: 2,
+  M: 2,
+  DD: 2,
+  D: 2,
+  HH: 2,
+  H: 2,
+  hh: 2,
+  h: 2,
+  mm: 2,
+  m: 2,
+  ss: 2,
+  s: 2,
+};
+
+/** The date and time fields read by `parseDate`; date fields missing from the format are `null`. */
+interface ParsedDateFields {
+  year: number | null;
+  month: number | null;
+  day: number | null;
+  quarter: number | null;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  is12Hour: boolean;
+  meridiem: "AM" | "PM" | null;
+}
+
 /**
  * Parses a date string into a Date object based on the provided format string.
- * @param dateString The date string to parse.
- * @param format The format string used to interpret the dateString. See `formatDate` for supported tokens.
+ * Uses the same tokenizer as `formatDate`, so a string produced by `formatDate` parses back
+ * to the same date and time (at the precision of the format), or to `null` if it is ambiguous.
+ * Numeric tokens accept a variable number of digits (e.g. "M" and "MM" both accept "1" or "01").
+ * Where numeric tokens are adjacent (e.g. "YYYYMD"), every split of the digits is tried, and the input is
+ * rejected if the splits yield different dates ("2024121" could be January 21 or December 1).
+ * Names are matched case-insensitively, and weekday names are accepted but do not affect the result.
+ * `YY` resolves to the year within 50 years of the current year, so a two-digit year outside that window
+ * (e.g. 1960, formatted as "60") does not parse back to the same century.
+ * Components missing from the format default to the current year/month; the day defaults to 1
+ * if a year or month is present, otherwise to today. A quarter (`Q`/`QQ`) without a month
+ * resolves to the first month of that quarter.
+ * Names, AM/PM markers and digits are read according to `options.locale`, and the
+ * result is the instant of the parsed wall-clock time in `options.timeZone`.
+ * @param input The date string to parse.
+ * @param format The format string used to interpret the input. See `formatDate` for supported tokens.
  * @param enableTime If true, time parts will be parsed. Defaults to false.
- * @returns A Date object if parsing is successful and the date is valid, otherwise `null`.
+ * @param options Optional parsing options, such as the locale and fiscal year start.
+ * @returns A Date object if the input parses to exactly one valid date, otherwise `null`.
  */
 export const parseDate = (
-  dateString: string,
+  input: string,
   format: string,
-  enableTime: boolean = false
+  enableTime: boolean = false,
+  options: DateFormatOptions = {}
 ): Date | null => {
-  if (!dateString) return null;
-
+  if (!input) return null;
+  const localeData = getLocaleData(options.locale);
+  const dateString = normalizeDigits(input, localeData);
+  const parts = tokenizeFormat(format, enableTime);
   const now = new Date();
-  let year = now.getFullYear(),
-    month = now.getMonth(),
-    day = now.getDate();
-  let hours = 0,
-    minutes = 0,
-    seconds = 0;
-
-  const yearMatch = format.indexOf("YYYY");
-  if (yearMatch > -1)
-    year = parseInt(dateString.substring(yearMatch, yearMatch + 4), 10);
-
-  const monthMatch = format.indexOf("MM");
-  if (monthMatch > -1)
-    month = parseInt(dateString.substring(monthMatch, monthMatch + 2), 10) - 1; // Month is 0-indexed
-
-  const dayMatch = format.indexOf("DD");
-  if (dayMatch > -1)
-    day = parseInt(dateString.substring(dayMatch, dayMatch + 2), 10);
-
-  if (enableTime) {
-    const hoursMatch = format.indexOf("hh");
-    if (hoursMatch > -1)
-      hours = parseInt(dateString.substring(hoursMatch, hoursMatch + 2), 10);
-
-    const minutesMatch = format.indexOf("mm");
-    if (minutesMatch > -1)
-      minutes = parseInt(
-        dateString.substring(minutesMatch, minutesMatch + 2),
-        10
-      );
-
-    const secondsMatch = format.indexOf("ss");
-    if (secondsMatch > -1)
-      seconds = parseInt(
-        dateString.substring(secondsMatch, secondsMatch + 2),
-        10
-      );
-
-    const KMatch = format.indexOf("K");
-    if (KMatch > -1) {
-      const amPm = dateString.substring(KMatch, KMatch + 2).toUpperCase();
-      if (amPm === "PM" && hours < 12) hours += 12;
-      if (amPm === "AM" && hours === 12) hours = 0; // Handle 12 AM (midnight)
+
+  /**
+   * Stores the value of a numeric token in a copy of `fields`.
+   * @returns The updated fields, or `null` if the value is out of range for the token.
+   */
+  const withNumber = (
+    fields: ParsedDateFields,
+    token: string,
+    value: number
+  ): ParsedDateFields | null => {
+    switch (token) {
+      case "YYYY":
+        return { ...fields, year: value };
+      case "YY": {
+        // Resolve to the century that puts the year closest to the current year
+        let year = Math.floor(now.getFullYear() / 100) * 100 + value;
+        if (year > now.getFullYear() + 50) year -= 100;
+        else if (year <= now.getFullYear() - 50) year += 100;
+        return { ...fields, year };
+      }
+      case "QQ":
+      case "Q":
+        return value < 1 || value > 4 ? null : { ...fields, quarter: value };
+      case "MM":
+      case "M":
+        return { ...fields, month: value - 1 }; // Month is 0-indexed
+      case "DD":
+      case "D":
+        return { ...fields, day: value };
+      case "HH":
+      case "H":
+        return { ...fields, hours: value };
+      case "hh":
+      case "h":
+        return value < 1 || value > 12
+          ? null
+          : { ...fields, hours: value, is12Hour: true };
+      case "mm":
+      case "m":
+        return { ...fields, minutes: value };
+      default:
+        return { ...fields, seconds: value };
     }
-  }
+  };
 
-  const parsed = new Date(year, month, day, hours, minutes, seconds);
-  // Check if components resulted in a valid date (e.g., not Feb 30)
-  if (
-    isNaN(parsed.getTime()) ||
-    parsed.getFullYear() !== year ||
-    parsed.getMonth() !== month ||
-    parsed.getDate() !== day
-  ) {
-    return null;
+  /** Gets the length of the longest name from `names` at `pos` (case-insensitive), and its index. */
+  const readName = (names: string[], pos: number) => {
+    const rest = dateString.substring(pos).toLowerCase();
+    let found = -1;
+    names.forEach((name, index) => {
+      if (
+        rest.startsWith(name.toLowerCase()) &&
+        (found === -1 || name.length > names[found].length)
+      )
+        found = index;
+    });
+    return found === -1 ? null : { index: found, length: names[found].length };
+  };
+
+  /** Builds the wall-clock date of fully read fields, or `null` if they do not form a valid date. */
+  const toDate = (fields: ParsedDateFields): Date | null => {
+    let { hours } = fields;
+    const { year, month, day, quarter, minutes, seconds } = fields;
+    if (fields.is12Hour && fields.meridiem === "PM" && hours < 12) hours += 12;
+    if (fields.is12Hour && fields.meridiem === "AM" && hours === 12) hours = 0; // Handle 12 AM (midnight)
+    if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+    const resolvedYear = year ?? now.getFullYear();
+    const resolvedMonth =
+      month ??
+      (quarter !== null
+        ? ((options.fiscalYearStartMonth ?? 0) + (quarter - 1) * 3) % 12
+        : now.getMonth());
+    const resolvedDay =
+      day ?? (year !== null || month !== null ? 1 : now.getDate());
+    if (resolvedMonth < 0 || resolvedMonth > 11) return null;
+
+    // setFullYear avoids the Date constructor mapping years 0-99 to 1900-1999
+    const parsed = new Date(2000, 0, 1);
+    parsed.setFullYear(resolvedYear, resolvedMonth, resolvedDay);
+    parsed.setHours(hours, minutes, seconds, 0);
+    // Check if components resulted in a valid date (e.g., not Feb 30)
+    if (
+      isNaN(parsed.getTime()) ||
+      parsed.getFullYear() !== resolvedYear ||
+      parsed.getMonth() !== resolvedMonth ||
+      parsed.getDate() !== resolvedDay
+    ) {
+      return null;
+    }
+    return parsed;
+  };
+
+  /** The distinct dates the input parses to; more than one means it is ambiguous. */
+  const results: Date[] = [];
+
+  /**
+   * Matches the format parts from `index` on against the input from `pos` on, adding each complete
+   * parse to `results`. Stops once the input is known to be ambiguous.
+   */
+  const matchParts = (
+    index: number,
+    pos: number,
+    fields: ParsedDateFields
+  ): void => {
+    if (results.length > 1) return;
+    if (index === parts.length) {
+      // The whole string must be consumed
+      if (dateString.substring(pos).trim() !== "") return;
+      const date = toDate(fields);
+      if (date && !results.some((other) => other.getTime() === date.getTime()))
+        results.push(date);
+      return;
+    }
+
+    const part = parts[index];
+    if ("literal" in part) {
+      if (
+        dateString.substring(pos, pos + part.literal.length).toLowerCase() ===
+        part.literal.toLowerCase()
+      )
+        matchParts(index + 1, pos + part.literal.length, fields);
+      return;
+    }
+
+    const maxDigits = NUMERIC_TOKEN_DIGITS[part.token];
+    if (maxDigits) {
+      const digits =
+        dateString.substring(pos).match(new RegExp(`^\\d{1,${maxDigits}}`))
+          ?.[0] ?? "";
+      // Try every number of digits, so that an adjacent numeric token can take the rest
+      for (let length = digits.length; length > 0; length--) {
+        const next = withNumber(
+          fields,
+          part.token,
+          parseInt(digits.substring(0, length), 10)
+        );
+        if (next) matchParts(index + 1, pos + length, next);
+      }
+      return;
+    }
+
+    switch (part.token) {
+      case "MMMM":
+      case "Month":
+      case "MMM":
+      case "Mon": {
+        const isFull = part.token === "MMMM" || part.token === "Month";
+        const name = readName(
+          isFull ? localeData.monthNamesFull : localeData.monthNamesShort,
+          pos
+        );
+        if (name)
+          matchParts(index + 1, pos + name.length, {
+            ...fields,
+            month: name.index,
+          });
+        return;
+      }
+      case "dddd":
+      case "ddd":
+      case "Day": {
+        const name = readName(
+          part.token === "dddd"
+            ? localeData.dayNamesFull
+            : localeData.dayNamesShort,
+          pos
+        );
+        if (name) matchParts(index + 1, pos + name.length, fields);
+        return;
+      }
+      case "K": {
+        const name = readName(localeData.meridiems, pos);
+        if (name)
+          matchParts(index + 1, pos + name.length, {
+            ...fields,
+            meridiem: name.index === 0 ? "AM" : "PM",
+          });
+        return;
+      }
+    }
+  };
+
+  matchParts(0, 0, {
+    year: null,
+    month: null,
+    day: null,
+    quarter: null,
+    hours: 0,
+    minutes: 0,
+    seconds: 0,
+    is12Hour: false,
+    meridiem: null,
+  });
+  if (results.length !== 1) return null;
+  return options.timeZone
+    ? fromZonedTime(results[0], options.timeZone)
+    : results[0];
+};
+
+/**
+ * Describes a format string in words for assistive technology, e.g. "YYYY-MM-DD" becomes "Year-Month-Day".
+ * @param format The format string to describe.
+ * @param enableTime If true, time tokens are described as well. Defaults to false.
+ * @returns The human-readable description of the format.
+ */
+export const describeDateFormat = (
+  format: string,
+  enableTime: boolean = false
+): string => {
+  const words: Record<string, string> = {
+    YYYY: "Year",
+    YY: "Year",
+    QQ: "Quarter",
+    Q: "Quarter",
+    MMMM: "Month",
+    MMM: "Month",
+    MM: "Month",
+    M: "Month",
+    Month: "Month",
+    Mon: "Month",
+    DD: "Day",
+    D: "Day",
+    dddd: "Weekday",
+    ddd: "Weekday",
+    Day: "Weekday",
+    HH: "Hour",
+    H: "Hour",
+    hh: "Hour",
+    h: "Hour",
+    mm: "Minute",
+    m: "Minute",
+    ss: "Second",
+    s: "Second",
+    K: "AM/PM",
+  };
+  return tokenizeFormat(format, enableTime)
+    .map((part) => ("literal" in part ? part.literal : words[part.token]))
+    .join("");
+};
+
+/**
+ * Parses free text entered by the user into a value shaped for the given selection mode.
+ * - `Single`: the whole text is parsed as one date.
+ * - `Range`: "from to to" or "from - to"; a single date (or "from to ...") yields an open range.
+ *   The endpoints are swapped if `to` comes before `from`. Separators that are part of `format` itself
+ *   are accounted for; text that splits into two different ranges is rejected.
+ * - `Multiple`: comma-separated dates. Commas that are part of `format` itself are accounted for.
+ * Empty text yields the empty value for the mode (`null`, `[]` or `{ from: null, to: null }`).
+ * @param text The raw text to parse.
+ * @param mode The selection mode determining the shape of the result.
+ * @param format The format string used to interpret each date. See `formatDate` for supported tokens.
+ * @param enableTime If true, time parts will be parsed. Defaults to false.
+ * @param options Optional parsing options, such as the locale.
+ * @returns The parsed value, or `undefined` if any part of the text could not be parsed.
+ */
+export const parseDateInput = (
+  text: string,
+  mode: ChronoPickMode,
+  format: string,
+  enableTime: boolean = false,
+  options: DateFormatOptions = {}
+): SelectedDateType | undefined => {
+  const trimmed = text.trim();
+
+  switch (mode) {
+    case ChronoPickMode.Multiple: {
+      if (!trimmed) return [];
+      // Each date occupies as many comma-separated segments as the format itself has.
+      const segmentsPerDate = format.split(",").length;
+      const segments = trimmed.split(",").map((segment) => segment.trim());
+      if (segments.length % segmentsPerDate !== 0) return undefined;
+
+      const dates: Date[] = [];
+      for (let i = 0; i < segments.length; i += segmentsPerDate) {
+        const chunk = segments.slice(i, i + segmentsPerDate).join(", ");
+        const parsed = parseDate(chunk, format, enableTime, options);
+        if (!parsed) return undefined;
+        dates.push(parsed);
+      }
+      return dates;
+    }
+    case ChronoPickMode.Range: {
+      if (!trimmed) return { from: null, to: null };
+      const parse = (part: string) =>
+        parseDate(part.trim(), format, enableTime, options);
+      // A separator may also occur in `format` itself (e.g. "DD - MM - YYYY"), so each one is tried
+      // as the split point; the text must parse at exactly one of them, or as a single date
+      const ranges: DateRange[] = [];
+      const single = parse(trimmed);
+      if (single) ranges.push({ from: single, to: null });
+      for (const separator of trimmed.matchAll(/\s+(?:to|-|–)\s+/g)) {
+        const from = parse(trimmed.substring(0, separator.index));
+        if (!from) continue;
+        const toText = trimmed
+          .substring(separator.index + separator[0].length)
+          .trim();
+        if (/^\.{3}$|^…$/.test(toText)) {
+          ranges.push({ from, to: null });
+          continue;
+        }
+        const to = parse(toText);
+        if (to) ranges.push(to < from ? { from: to, to: from } : { from, to });
+      }
+      return ranges.length === 1 ? ranges[0] : undefined;
+    }
+    default: {
+      if (!trimmed) return null;
+      return parseDate(trimmed, format, enableTime, options) ?? undefined;
+    }
   }
-  return parsed;
 };
 
 /**
@@ -147,13 +611,19 @@ export const getDaysInMonth = (year: number, month: number): Date[] => {
 };
 
 /**
- * Gets the day of the week for the first day of a specific month.
+ * Gets the position of the first day of a specific month within its week.
  * @param year The full year.
  * @param month The month index (0-11).
- * @returns The day of the week (0 for Sunday, 1 for Monday, ..., 6 for Saturday).
+ * @param firstDayOfWeek The first day of the week (0 for Sunday, 1 for Monday, etc.). Defaults to 0 (Sunday).
+ * @returns The number of days between the start of the week and the 1st of the month
+ *          (with the default Sunday start: 0 for Sunday, 1 for Monday, ..., 6 for Saturday).
  */
-export const getFirstDayOfMonth = (year: number, month: number): number => {
-  return new Date(year, month, 1).getDay();
+export const getFirstDayOfMonth = (
+  year: number,
+  month: number,
+  firstDayOfWeek: number = 0
+): number => {
+  return (new Date(year, month, 1).getDay() - firstDayOfWeek + 7) % 7;
 };
 
 /**
@@ -229,6 +699,176 @@ export const endOfWeek = (date: Date, firstDayOfWeek: number = 0): Date => {
   return newDate;
 };
 
+/**
+ * Gets the start of the month for a given date (the 1st, time set to 00:00:00:000).
+ * @param date The date for which to find the start of the month.
+ * @returns A new Date object representing the start of the month.
+ */
+export const startOfMonth = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), 1);
+
+/**
+ * Gets the end of the month for a given date (the last day, time set to 23:59:59:999).
+ * @param date The date for which to find the end of the month.
+ * @returns A new Date object representing the end of the month.
+ */
+export const endOfMonth = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
+
+/**
+ * Gets the start of the year for a given date (January 1st, time set to 00:00:00:000).
+ * @param date The date for which to find the start of the year.
+ * @returns A new Date object representing the start of the year.
+ */
+export const startOfYear = (date: Date): Date =>
+  new Date(date.getFullYear(), 0, 1);
+
+/**
+ * Gets the end of the year for a given date (December 31st, time set to 23:59:59:999).
+ * @param date The date for which to find the end of the year.
+ * @returns A new Date object representing the end of the year.
+ */
+export const endOfYear = (date: Date): Date =>
+  new Date(date.getFullYear(), 11, 31, 23, 59, 59, 999);
+
+/**
+ * Gets the quarter of a date, counted from the start of the fiscal year.
+ * @param date The date for which to get the quarter.
+ * @param fiscalYearStartMonth The month in which the fiscal year starts (0 for January). Defaults to 0.
+ * @returns The quarter (1-4).
+ */
+export const getQuarter = (
+  date: Date,
+  fiscalYearStartMonth: number = 0
+): number => Math.floor(((date.getMonth() - fiscalYearStartMonth + 12) % 12) / 3) + 1;
+
+/**
+ * Gets the start of the quarter for a given date (the 1st of the quarter's first month, time set to 00:00:00:000).
+ * @param date The date for which to find the start of the quarter.
+ * @param fiscalYearStartMonth The month in which the fiscal year starts (0 for January). Defaults to 0.
+ * @returns A new Date object representing the start of the quarter.
+ */
+export const startOfQuarter = (
+  date: Date,
+  fiscalYearStartMonth: number = 0
+): Date => {
+  const monthsIntoQuarter = (date.getMonth() - fiscalYearStartMonth + 12) % 3;
+  return new Date(date.getFullYear(), date.getMonth() - monthsIntoQuarter, 1);
+};
+
+/**
+ * Gets the end of the quarter for a given date (the last day of the quarter, time set to 23:59:59:999).
+ * @param date The date for which to find the end of the quarter.
+ * @param fiscalYearStartMonth The month in which the fiscal year starts (0 for January). Defaults to 0.
+ * @returns A new Date object representing the end of the quarter.
+ */
+export const endOfQuarter = (
+  date: Date,
+  fiscalYearStartMonth: number = 0
+): Date => endOfMonth(addMonths(startOfQuarter(date, fiscalYearStartMonth), 2));
+
+/**
+ * Gets the start of the fiscal year containing a given date.
+ * @param date The date for which to find the start of the fiscal year.
+ * @param fiscalYearStartMonth The month in which the fiscal year starts (0 for January). Defaults to 0.
+ * @returns A new Date object representing the 1st of the fiscal year's first month.
+ */
+export const startOfFiscalYear = (
+  date: Date,
+  fiscalYearStartMonth: number = 0
+): Date =>
+  new Date(
+    date.getMonth() >= fiscalYearStartMonth
+      ? date.getFullYear()
+      : date.getFullYear() - 1,
+    fiscalYearStartMonth,
+    1
+  );
+
+/**
+ * Gets the week number of a date.
+ * - `WeekNumbering.ISO`: ISO-8601 week of the Monday-to-Sunday week containing the date
+ *   (week 1 is the week with the year's first Thursday; Dec 29-31 may belong to week 1 of the next year).
+ * - `WeekNumbering.US`: week of the Sunday-to-Saturday week containing the date, counted from the
+ *   week containing January 1st (week 1; Dec 26-31 may belong to week 1 of the next year).
+ * @param date The date for which to get the week number.
+ * @param numbering The numbering scheme. Defaults to `WeekNumbering.ISO`.
+ * @returns The week number (1-53).
+ */
+export const getWeekNumber = (
+  date: Date,
+  numbering: WeekNumbering = WeekNumbering.ISO
+): number => {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const msPerDay = 24 * 60 * 60 * 1000;
+
+  if (numbering === WeekNumbering.US) {
+    // The week containing the next January 1st is week 1 of the next year
+    const saturday = new Date(day);
+    saturday.setDate(day.getDate() + 6 - day.getDay());
+    if (saturday.getFullYear() !== day.getFullYear()) return 1;
+    const jan1 = new Date(day.getFullYear(), 0, 1);
+    const firstWeekStart = startOfWeek(jan1, 0);
+    // Math.round absorbs DST shifts between the two dates
+    const daysSinceFirstWeek = Math.round(
+      (day.getTime() - firstWeekStart.getTime()) / msPerDay
+    );
+    return Math.floor(daysSinceFirstWeek / 7) + 1;
+  }
+
+  // ISO: the week belongs to the year of its Thursday
+  const thursday = new Date(day);
+  thursday.setDate(day.getDate() + 3 - ((day.getDay() + 6) % 7));
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  firstThursday.setDate(
+    firstThursday.getDate() + 3 - ((firstThursday.getDay() + 6) % 7)
+  );
+  return (
+    1 +
+    Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * msPerDay))
+  );
+};
+
+/**
+ * Splits a month into the week rows displayed in the Days view.
+ * Cells before the 1st and after the last day of the month are `null`.
+ * @param year The full year.
+ * @param month The month index (0-11).
+ * @param firstDayOfWeek The first day of the week (0 for Sunday, 1 for Monday, etc.). Defaults to 0 (Sunday).
+ * @param numbering The week numbering scheme. Defaults to `WeekNumbering.ISO`.
+ * @returns An array of `CalendarWeek` rows, each with seven cells.
+ */
+export const getCalendarWeeks = (
+  year: number,
+  month: number,
+  firstDayOfWeek: number = 0,
+  numbering: WeekNumbering = WeekNumbering.ISO
+): CalendarWeek[] => {
+  const offset = getFirstDayOfMonth(year, month, firstDayOfWeek);
+  const cells: (Date | null)[] = [
+    ...Array(offset).fill(null),
+    ...getDaysInMonth(year, month),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: CalendarWeek[] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    const weekStart = new Date(year, month, 1 - offset + i);
+    // Number the row by a day that lies in the scheme's own week: the row's 4th day covers
+    // ISO weeks for any week start, the row's last day covers US weeks starting on Sunday.
+    const representative = new Date(weekStart);
+    representative.setDate(
+      weekStart.getDate() + (numbering === WeekNumbering.ISO ? 3 : 6)
+    );
+    weeks.push({
+      weekStart,
+      weekNumber: getWeekNumber(representative, numbering),
+      days: cells.slice(i, i + 7),
+    });
+  }
+  return weeks;
+};
+
 /**
  * Checks if two dates represent the same calendar day (ignores time components).
  * @param date1 The first date. Can be null or undefined.
@@ -288,16 +928,24 @@ export const isDateDisabled = (
 ): boolean => {
   if (minDate && isBeforeDay(date, minDate)) return true;
   if (maxDate && isAfterDay(date, maxDate)) return true;
-  if (disabledDates) {
-    if (typeof disabledDates === "function") {
-      return disabledDates(date);
-    }
-    // For array, check if 'date' isSameDay as any date in 'disabledDates'
-    return disabledDates.some((disabledDate) => isSameDay(date, disabledDate));
-  }
-  return false;
+  return !!disabledDates && matchesDate(date, disabledDates);
 };
 
+/**
+ * Checks if a date matches a set of days given as an array of dates or a predicate,
+ * as used by `disabledDates` and `modifiers`.
+ * @param date The date to check.
+ * @param matcher An array of dates (compared by day, ignoring time) or a function that returns `true` for matching dates.
+ * @returns `true` if the date matches, `false` otherwise.
+ */
+export const matchesDate = (
+  date: Date,
+  matcher: Date[] | ((d: Date) => boolean)
+): boolean =>
+  typeof matcher === "function"
+    ? matcher(date)
+    : matcher.some((matchDate) => isSameDay(date, matchDate));
+
 /**
  * Generates an array of years for display in the "Years" view of the calendar.
  * The range is calculated around the given `year` to fill the `count`.
@@ -332,10 +980,180 @@ export const isDateInRange = (date: Date, range: DateRange): boolean => {
 };
 
 /**
- * Checks if the time part (hours and minutes) of two dates is the same.
+ * Gets the value of a mode with nothing selected: `[]` in `Multiple` mode,
+ * `{ from: null, to: null }` in modes whose value is a `DateRange`, and `null` otherwise.
+ * @param mode The selection mode.
+ * @returns The empty value for the mode.
+ */
+export const getEmptySelection = (mode: ChronoPickMode): SelectedDateType => {
+  if (mode === ChronoPickMode.Multiple) return [];
+  if (RANGE_VALUE_MODES.includes(mode)) return { from: null, to: null };
+  return null;
+};
+
+/**
+ * Checks if two selected values select the same days (compares days only, ignores time).
+ * Multiple values match if they contain the same days in any order.
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `true` if both values select the same days, `false` otherwise.
+ */
+export const isSameSelection = (
+  a: SelectedDateType,
+  b: SelectedDateType
+): boolean => {
+  if (a instanceof Date || b instanceof Date)
+    return a instanceof Date && b instanceof Date && isSameDay(a, b);
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length)
+      return false;
+    return a.every((day) => b.some((other) => isSameDay(day, other)));
+  }
+  if (!a || !b) return a === b;
+  const isSameEndpoint = (d1: Date | null, d2: Date | null) =>
+    d1 === d2 || isSameDay(d1, d2);
+  return isSameEndpoint(a.from, b.from) && isSameEndpoint(a.to, b.to);
+};
+
+/**
+ * Applies a picked date to a range selection, following the two-click range flow:
+ * - If no range is in progress (no `from`, or the range is already complete), a new range starts at `picked`.
+ * - Picking `from` again clears the range.
+ * - Otherwise the range is completed, swapping the endpoints if `picked` comes before `from`.
+ * Comparison is by day, so callers selecting months or years pass dates normalized to the start of the period.
+ * @param currentRange The current range value.
+ * @param picked The date that was picked.
+ * @returns The next range. `to` is non-null once the range is complete.
+ */
+export const getNextRangeSelection = (
+  currentRange: DateRange,
+  picked: Date
+): DateRange => {
+  if (!currentRange.from || currentRange.to) return { from: picked, to: null };
+  if (isSameDay(currentRange.from, picked)) return { from: null, to: null };
+  if (isBeforeDay(picked, currentRange.from))
+    return { from: picked, to: currentRange.from };
+  return { from: currentRange.from, to: picked };
+};
+
+/**
+ * Counts the days of a range, including both endpoints (e.g. `3` for 1 to 3 March). Times are ignored.
+ * @param from The start of the range.
+ * @param to The end of the range.
+ * @returns The number of days from `from` to `to`, negative if `to` is before `from`.
+ */
+export const getRangeDayCount = (from: Date, to: Date): number => {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  // Math.round absorbs DST shifts between the two dates
+  const days = Math.round((end.getTime() - start.getTime()) / msPerDay);
+  return days + Math.sign(days || 1);
+};
+
+/** The constraints applied by `resolveRangeEnd` and `createRangeEndResolver`. */
+export interface RangeEndOptions {
+  minRangeDays?: number;
+  maxRangeDays?: number;
+  rangeCrossesDisabled?: RangeCrossesDisabled;
+  /** Checks whether a day between `from` and the picked day is disabled. */
+  isDisabled: (date: Date) => boolean;
+}
+
+/**
+ * Creates a function resolving the day that ends a range started at `from`, for many picked days
+ * (e.g. every day cell while the range end is picked); see `resolveRangeEnd`.
+ * The length constraints are checked before looking for disabled days, and the first disabled day
+ * before and after `from` is searched once: each direction is only walked as far as a picked day needs,
+ * and later calls reuse it.
+ * @param from The start of the range.
+ * @param options The constraints, and `isDisabled` to detect disabled days.
+ * @returns A function taking the picked day and returning the day ending the range, or `null`.
+ */
+export const createRangeEndResolver = (
+  from: Date,
+  options: RangeEndOptions
+): ((picked: Date) => Date | null) => {
+  const {
+    minRangeDays,
+    maxRangeDays,
+    rangeCrossesDisabled = "allow",
+    isDisabled,
+  } = options;
+  /** Per direction: the number of days after (or before) `from` checked so far, and the first disabled one. */
+  const walks = {
+    after: { checked: 0, disabledAt: Infinity },
+    before: { checked: 0, disabledAt: Infinity },
+  };
+  const isTooShort = (dayCount: number) =>
+    !!minRangeDays && dayCount < minRangeDays;
+  const isTooLong = (dayCount: number) =>
+    !!maxRangeDays && dayCount > maxRangeDays;
+
+  /** Gets how many days after (`step` 1) or before (`step` -1) `from` the first disabled day is, up to `limit`, or `Infinity`. */
+  const findDisabled = (step: 1 | -1, limit: number): number => {
+    const walk = step === 1 ? walks.after : walks.before;
+    while (walk.disabledAt === Infinity && walk.checked < limit) {
+      walk.checked++;
+      const day = new Date(from);
+      day.setDate(day.getDate() + step * walk.checked);
+      if (isDisabled(day)) walk.disabledAt = walk.checked;
+    }
+    return walk.disabledAt <= limit ? walk.disabledAt : Infinity;
+  };
+
+  return (picked) => {
+    if (isSameDay(from, picked)) return picked;
+    const dayCount = Math.abs(getRangeDayCount(from, picked));
+    // Truncating only shortens a range, so only a too long range may still be resolved by it
+    if (isTooShort(dayCount)) return null;
+    if (rangeCrossesDisabled !== "truncate" && isTooLong(dayCount))
+      return null;
+    if (rangeCrossesDisabled === "allow") return picked;
+
+    const step = isBeforeDay(picked, from) ? -1 : 1;
+    // Only the days between `from` and `picked` matter, and a truncated range can be at most `maxRangeDays` long
+    const disabledAt = findDisabled(
+      step,
+      maxRangeDays ? Math.min(dayCount - 2, maxRangeDays) : dayCount - 2
+    );
+    if (disabledAt === Infinity) return isTooLong(dayCount) ? null : picked;
+    if (rangeCrossesDisabled === "block") return null;
+    // The range ends at the last enabled day before the disabled one, and is `disabledAt` days long
+    if (isTooShort(disabledAt) || isTooLong(disabledAt)) return null;
+    const end = new Date(from);
+    end.setDate(end.getDate() + step * (disabledAt - 1));
+    return setTime(
+      end,
+      picked.getHours(),
+      picked.getMinutes(),
+      picked.getSeconds()
+    );
+  };
+};
+
+/**
+ * Resolves the day that ends a range started at `from` when `picked` is picked, applying
+ * the `minRangeDays`, `maxRangeDays` and `rangeCrossesDisabled` constraints.
+ * With "truncate", a range spanning a disabled day ends at the last enabled day before it;
+ * the length constraints apply to the truncated range.
+ * To resolve many days for the same `from`, use `createRangeEndResolver`.
+ * @param from The start of the range.
+ * @param picked The picked day, before or after `from`.
+ * @param options The constraints, and `isDisabled` to detect disabled days between `from` and `picked`.
+ * @returns The day ending the range, or `null` if `picked` cannot end a range started at `from`.
+ */
+export const resolveRangeEnd = (
+  from: Date,
+  picked: Date,
+  options: RangeEndOptions
+): Date | null => createRangeEndResolver(from, options)(picked);
+
+/**
+ * Checks if the time part (hours, minutes and seconds) of two dates is the same.
  * @param date1 The first date. Can be null or undefined.
  * @param date2 The second date. Can be null or undefined.
- * @returns `true` if both dates are valid and their hours and minutes are identical, `false` otherwise.
+ * @returns `true` if both dates are valid and their hours, minutes and seconds are identical, `false` otherwise.
  */
 export const isTimeEqual = (
   date1?: Date | null,
@@ -344,21 +1162,139 @@ export const isTimeEqual = (
   if (!date1 || !date2) return false;
   return (
     date1.getHours() === date2.getHours() &&
-    date1.getMinutes() === date2.getMinutes()
+    date1.getMinutes() === date2.getMinutes() &&
+    date1.getSeconds() === date2.getSeconds()
   );
 };
 
 /**
- * Sets the time (hours and minutes) on a given date, returning a new Date object.
- * Seconds and milliseconds are reset to 0 for consistency.
+ * Gets the time of day of a date.
+ * @param date The date.
+ * @returns The date's hours, minutes and seconds.
+ */
+export const getTimeValue = (date: Date): TimeValue => ({
+  hours: date.getHours(),
+  minutes: date.getMinutes(),
+  seconds: date.getSeconds(),
+});
+
+/**
+ * Converts a time of day to the number of seconds since midnight, e.g. for comparing times.
+ * @param time The time of day.
+ * @returns The seconds since midnight (0-86399).
+ */
+export const timeValueToSeconds = (time: TimeValue): number =>
+  time.hours * 3600 + time.minutes * 60 + time.seconds;
+
+/**
+ * Converts a number of seconds since midnight to a time of day, the inverse of `timeValueToSeconds`.
+ * @param seconds The seconds since midnight (0-86399).
+ * @returns The time of day.
+ */
+export const secondsToTimeValue = (seconds: number): TimeValue => ({
+  hours: Math.floor(seconds / 3600),
+  minutes: Math.floor((seconds % 3600) / 60),
+  seconds: seconds % 60,
+});
+
+/**
+ * Gets the default time format for an hour cycle, e.g. "hh:mm K" for the 12-hour cycle.
+ * @param hourCycle The hour cycle, `12` or `24`.
+ * @param showSeconds If true, the format includes seconds.
+ * @returns The time format string.
+ */
+export const getDefaultTimeFormat = (
+  hourCycle: HourCycle,
+  showSeconds: boolean
+): string =>
+  hourCycle === 24
+    ? showSeconds
+      ? DEFAULT_TIME_FORMAT_24H_WITH_SECONDS
+      : DEFAULT_TIME_FORMAT_24H
+    : showSeconds
+      ? DEFAULT_TIME_FORMAT_WITH_SECONDS
+      : DEFAULT_TIME_FORMAT;
+
+/**
+ * Gets the times of day offered by a time picker, in seconds since midnight.
+ * @param minuteStep The interval between the offered minutes.
+ * @param secondStep The interval between the offered seconds (only used if `showSeconds`).
+ * @param showSeconds If false, only whole minutes are offered.
+ * @returns The ascending times of day, in seconds since midnight.
+ */
+export const getTimeSlots = (
+  minuteStep: number,
+  secondStep: number,
+  showSeconds: boolean
+): number[] => {
+  const slots: number[] = [];
+  const minuteInterval = Math.max(1, minuteStep);
+  const secondInterval = showSeconds ? Math.max(1, secondStep) : 60;
+  for (let minute = 0; minute < 24 * 60; minute += minuteInterval) {
+    for (let second = 0; second < 60; second += secondInterval) {
+      slots.push(minute * 60 + second);
+    }
+  }
+  return slots;
+};
+
+/**
+ * Resolves a requested time of day to an allowed one: the time itself if it is not disabled,
+ * otherwise the nearest of `timeSlots` that is not disabled (the earlier one on a tie).
+ * @param time The requested time of day.
+ * @param timeSlots The ascending times of day to choose from, in seconds since midnight (see `getTimeSlots`).
+ * @param isDisabled Checks whether a time of day cannot be selected.
+ * @returns The allowed time, or `null` if no time is allowed.
+ */
+export const findNearestAllowedTime = (
+  time: TimeValue,
+  timeSlots: number[],
+  isDisabled: (time: TimeValue) => boolean
+): TimeValue | null => {
+  if (!isDisabled(time)) return time;
+  const requested = timeValueToSeconds(time);
+  // Search outwards from the requested time, trying the closer slot first
+  let right = timeSlots.findIndex((slot) => slot >= requested);
+  if (right === -1) right = timeSlots.length;
+  let left = right - 1;
+  while (left >= 0 || right < timeSlots.length) {
+    const takeRight =
+      right < timeSlots.length &&
+      (left < 0 ||
+        timeSlots[right] - requested <= requested - timeSlots[left]);
+    const candidate = secondsToTimeValue(
+      takeRight ? timeSlots[right++] : timeSlots[left--]
+    );
+    if (!isDisabled(candidate)) return candidate;
+  }
+  return null;
+};
+
+/**
+ * Sorts dates chronologically (by date and time of day), returning a new array.
+ * @param dates The dates to sort.
+ * @returns A new array with the dates in ascending order.
+ */
+export const sortDates = (dates: Date[]): Date[] =>
+  [...dates].sort((a, b) => a.getTime() - b.getTime());
+
+/**
+ * Sets the time (hours, minutes and seconds) on a given date, returning a new Date object.
+ * Milliseconds are reset to 0 for consistency.
  * @param date The date to modify.
  * @param hours The hours to set (0-23).
  * @param minutes The minutes to set (0-59).
+ * @param seconds The seconds to set (0-59). Defaults to 0.
  * @returns A new Date object with the original date and the updated time.
  */
-export const setTime = (date: Date, hours: number, minutes: number): Date => {
+export const setTime = (
+  date: Date,
+  hours: number,
+  minutes: number,
+  seconds: number = 0
+): Date => {
   const newDate = new Date(date);
-  newDate.setHours(hours, minutes, 0, 0); // Set seconds and ms to 0
+  newDate.setHours(hours, minutes, seconds, 0); // Set ms to 0
   return newDate;
 };
 
@@ -476,6 +1412,9 @@ export const generateDateId = (
     case CalendarView.Months:
       // For months, use year and month index for uniqueness within the year view
       return `${prefix}-month-${date.getFullYear()}-${date.getMonth()}`;
+    case CalendarView.Quarters:
+      // For quarters, use the year and month index of the quarter's first month
+      return `${prefix}-quarter-${date.getFullYear()}-${date.getMonth()}`;
     case CalendarView.Years:
       // For years, use the year itself
       return `${prefix}-year-${date.getFullYear()}`;
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { getLocaleData, localizeDigits, normalizeDigits } from "./localeUtils";
+
+describe("getLocaleData", () => {
+  it("returns the built-in English data without a locale", () => {
+    const data = getLocaleData();
+    expect(data.monthNamesFull[0]).toBe("January");
+    expect(data.meridiems).toEqual(["AM", "PM"]);
+    expect(data.firstDayOfWeek).toBe(0);
+  });
+
+  it("resolves names, digits and the week start of a locale", () => {
+    const data = getLocaleData("de-DE");
+    expect(data.monthNamesFull[2]).toBe("März");
+    expect(data.firstDayOfWeek).toBe(1);
+    expect(getLocaleData("ar-EG").digits[5]).toBe("٥");
+  });
+
+  it("falls back to the built-in data for a malformed locale", () => {
+    expect(() => getLocaleData("en_US")).not.toThrow();
+    expect(getLocaleData("en_US")).toBe(getLocaleData());
+  });
+});
+
+describe("localizeDigits and normalizeDigits", () => {
+  it("convert between ASCII and the locale's digits", () => {
+    const data = getLocaleData("ar-EG");
+    expect(localizeDigits("2024-03", data)).toBe("٢٠٢٤-٠٣");
+    expect(normalizeDigits("٢٠٢٤-٠٣", data)).toBe("2024-03");
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  MONTH_NAMES_FULL,
+  MONTH_NAMES_SHORT,
+  DAY_NAMES_SHORT,
+  DAY_NAMES_FULL,
+} from "./constants";
+
+/**
+ * Locale-specific names and numbering used for formatting, parsing and rendering the calendar.
+ * Day name arrays always start with Sunday (index 0), matching `Date.prototype.getDay()`.
+ */
+export interface LocaleData {
+  /** Full month names (0-indexed: January=0). */
+  monthNamesFull: string[];
+  /** Short month names (0-indexed). */
+  monthNamesShort: string[];
+  /** Full day names, starting with Sunday. */
+  dayNamesFull: string[];
+  /** Short day names, starting with Sunday. */
+  dayNamesShort: string[];
+  /** Minimal day names for the calendar's column headers, starting with Sunday. */
+  dayNamesMin: string[];
+  /** The AM and PM markers, in that order. */
+  meridiems: [string, string];
+  /** The digits 0-9 of the locale's number system. */
+  digits: string[];
+  /** The first day of the week (0 for Sunday, 1 for Monday, ..., 6 for Saturday). */
+  firstDayOfWeek: number;
+}
+
+/** Built-in English locale data, used when no `locale` is given. */
+const DEFAULT_LOCALE_DATA: LocaleData = {
+  monthNamesFull: MONTH_NAMES_FULL,
+  monthNamesShort: MONTH_NAMES_SHORT,
+  dayNamesFull: DAY_NAMES_FULL,
+  dayNamesShort: DAY_NAMES_SHORT,
+  dayNamesMin: DAY_NAMES_SHORT.map((day) => day.substring(0, 2)),
+  meridiems: ["AM", "PM"],
+  digits: ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"],
+  firstDayOfWeek: 0,
+};
+
+/**
+ * Regions whose week starts on Sunday or Saturday (per CLDR). All other regions start on Monday.
+ * Only used when the runtime does not expose `Intl.Locale` week info.
+ */
+const SUNDAY_START_REGIONS =
+  "AG AS BD BR BS BT BW BZ CA CN CO DM DO ET GT GU HK HN ID IL IN JM JP KE KH KR LA MH MM MO MT MX MZ NI NP PA PE PH PK PR PT PY SA SG SV TH TT TW UM US VE VI WS YE ZA ZW".split(
+    " "
+  );
+const SATURDAY_START_REGIONS =
+  "AE AF BH DJ DZ EG IQ IR JO KW LY OM QA SD SY".split(" ");
+
+/** Week info exposed by `Intl.Locale` in modern runtimes (not yet part of TypeScript's lib). */
+type TWeekInfo = { firstDay: number };
+type TLocaleWithWeekInfo = Intl.Locale & {
+  getWeekInfo?: () => TWeekInfo;
+  weekInfo?: TWeekInfo;
+};
+
+/**
+ * Determines the first day of the week for a locale.
+ * Uses `Intl.Locale` week info where available, falling back to the locale's region.
+ * @param locale A BCP 47 locale tag, e.g. "de-DE".
+ * @returns The first day of the week (0 for Sunday, 1 for Monday, ..., 6 for Saturday).
+ */
+const getFirstDayOfWeek = (locale: string): number => {
+  try {
+    const intlLocale = new Intl.Locale(locale) as TLocaleWithWeekInfo;
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+    if (weekInfo) return weekInfo.firstDay % 7; // Intl uses 1 (Monday) to 7 (Sunday)
+
+    const region = intlLocale.maximize().region ?? "";
+    if (SUNDAY_START_REGIONS.includes(region)) return 0;
+    if (SATURDAY_START_REGIONS.includes(region)) return 6;
+    return 1;
+  } catch {
+    return 0;
+  }
+};
+
+/** Cache of resolved locale data, keyed by locale tag. */
+const localeDataCache = new Map<string, LocaleData>();
+
+/**
+ * Resolves month/day names, AM/PM markers, digits and the first day of the week for a locale
+ * using `Intl.DateTimeFormat` and `Intl.NumberFormat`. Results are cached per locale.
+ * @param locale Optional BCP 47 locale tag, e.g. "bn-BD". If omitted or malformed (e.g. "en_US"),
+ *   built-in English data is returned.
+ * @returns The resolved `LocaleData`.
+ */
+export const getLocaleData = (locale?: string): LocaleData => {
+  if (!locale) return DEFAULT_LOCALE_DATA;
+  const cached = localeDataCache.get(locale);
+  if (cached) return cached;
+
+  const monthName = (month: "long" | "short") => {
+    const formatter = new Intl.DateTimeFormat(locale, { month });
+    return Array.from({ length: 12 }, (_, i) =>
+      formatter.format(new Date(2000, i, 1))
+    );
+  };
+  const dayName = (weekday: "long" | "short") => {
+    const formatter = new Intl.DateTimeFormat(locale, { weekday });
+    // January 2, 2000 was a Sunday
+    return Array.from({ length: 7 }, (_, i) =>
+      formatter.format(new Date(2000, 0, 2 + i))
+    );
+  };
+  const meridiem = (hour: number) =>
+    new Intl.DateTimeFormat(locale, { hour: "numeric", hour12: true })
+      .formatToParts(new Date(2000, 0, 1, hour))
+      .find((part) => part.type === "dayPeriod")?.value ??
+    (hour < 12 ? "AM" : "PM");
+
+  let data: LocaleData;
+  try {
+    const numberFormatter = new Intl.NumberFormat(locale, {
+      useGrouping: false,
+    });
+    data = {
+      monthNamesFull: monthName("long"),
+      monthNamesShort: monthName("short"),
+      dayNamesFull: dayName("long"),
+      dayNamesShort: dayName("short"),
+      dayNamesMin: dayName("short"),
+      meridiems: [meridiem(0), meridiem(12)],
+      digits: Array.from({ length: 10 }, (_, i) => numberFormatter.format(i)),
+      firstDayOfWeek: getFirstDayOfWeek(locale),
+    };
+  } catch {
+    data = DEFAULT_LOCALE_DATA; // `Intl` throws a RangeError for a malformed locale tag
+  }
+  localeDataCache.set(locale, data);
+  return data;
+};
+
+/**
+ * Replaces ASCII digits in a string with the digits of the locale's number system.
+ * @param text The text containing ASCII digits.
+ * @param localeData The locale data providing the target digits.
+ * @returns The text with localized digits.
+ */
+export const localizeDigits = (text: string, localeData: LocaleData): string =>
+  localeData === DEFAULT_LOCALE_DATA
+    ? text
+    : text.replace(/[0-9]/g, (digit) => localeData.digits[Number(digit)]);
+
+/**
+ * Replaces the locale's digits in a string with ASCII digits, the inverse of `localizeDigits`.
+ * @param text The text containing localized digits.
+ * @param localeData The locale data providing the source digits.
+ * @returns The text with ASCII digits.
+ */
+export const normalizeDigits = (text: string, localeData: LocaleData): string =>
+  localeData === DEFAULT_LOCALE_DATA
+    ? text
+    : text.replace(/./gu, (char) => {
+        const index = localeData.digits.indexOf(char);
+        return index > -1 ? String(index) : char;
+      });
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { PopoverPlacement, computePopoverPosition } from "./positioning";
+
+const boundary = { top: 0, left: 0, width: 1000, height: 800 };
+/** A 100x30 input near the top left of the viewport. */
+const reference = { top: 100, left: 200, width: 100, height: 30 };
+const floating = { width: 200, height: 150 };
+
+/** Positions the popover next to `reference` with an 8px offset. */
+const position = (
+  placement: PopoverPlacement,
+  ref = reference,
+  size = floating
+) => computePopoverPosition(ref, size, { placement, offset: 8, boundary });
+
+describe("computePopoverPosition", () => {
+  it.each([
+    // Centered below the input, the arrow at the input's center
+    ["bottom", 138, 150, 100],
+    ["bottom-start", 138, 200, 50],
+    ["bottom-end", 138, 100, 150],
+  ] as [PopoverPlacement, number, number, number][])(
+    "places %s below the input",
+    (placement, top, left, arrowOffset) => {
+      expect(position(placement)).toEqual({
+        top,
+        left,
+        placement,
+        side: "bottom",
+        arrowOffset,
+      });
+    }
+  );
+
+  it("places the popover beside the input", () => {
+    expect(position("right")).toEqual({
+      top: 40,
+      left: 308,
+      placement: "right",
+      side: "right",
+      arrowOffset: 75,
+    });
+  });
+
+  it("flips to the opposite side if the popover does not fit", () => {
+    expect(position("top-start")).toMatchObject({
+      top: 138,
+      placement: "bottom-start",
+      side: "bottom",
+    });
+    expect(position("left")).toMatchObject({
+      left: 308,
+      placement: "right",
+      side: "right",
+    });
+  });
+
+  it("keeps the preferred side if the opposite side has less room", () => {
+    const low = { ...reference, top: 400 };
+    // Neither side fits 500px; the top has 390px, the bottom 360px
+    expect(position("top", low, { width: 200, height: 500 })).toMatchObject({
+      top: 2,
+      side: "top",
+    });
+  });
+
+  it("shifts the popover into the boundary and keeps the arrow on the input", () => {
+    const edge = { ...reference, left: 0, width: 40 };
+    expect(position("bottom", edge)).toMatchObject({
+      left: 2,
+      arrowOffset: 18,
+    });
+    const right = { ...reference, left: 960, width: 40 };
+    expect(position("bottom", right)).toMatchObject({
+      left: 798,
+      arrowOffset: 182,
+    });
+  });
+
+  it("keeps the arrow away from the popover's corners", () => {
+    const narrow = { ...reference, left: 0, width: 10 };
+    expect(position("bottom", narrow).arrowOffset).toBe(12);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Where a popover is placed relative to its input: the side of the input (`top`, `bottom`,
+ * `left` or `right`), optionally aligned to the `start` or `end` of that side instead of centered.
+ * E.g. `bottom-start` is below the input, aligned with its left edge.
+ */
+export type PopoverPlacement =
+  | "top"
+  | "top-start"
+  | "top-end"
+  | "bottom"
+  | "bottom-start"
+  | "bottom-end"
+  | "left"
+  | "left-start"
+  | "left-end"
+  | "right"
+  | "right-start"
+  | "right-end";
+
+/** A side of the input a popover is placed on. */
+export type PopoverSide = "top" | "bottom" | "left" | "right";
+
+/** A rectangle in viewport coordinates, like the result of `getBoundingClientRect`. */
+export interface PositionRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+/** Options of `computePopoverPosition`. */
+export interface PopoverPositionOptions {
+  /** The preferred placement; flipped to the opposite side if it does not fit. */
+  placement: PopoverPlacement;
+  /** The distance between the input and the popover, in pixels. */
+  offset: number;
+  /** The area the popover is kept in, usually the viewport. */
+  boundary: PositionRect;
+  /** The minimum distance between the popover and the edges of `boundary`, in pixels. */
+  padding?: number;
+  /** The minimum distance between the arrow's center and the popover's corners, in pixels. */
+  arrowPadding?: number;
+}
+
+/** The result of `computePopoverPosition`, in viewport coordinates. */
+export interface PopoverPosition {
+  /** The popover's top edge. */
+  top: number;
+  /** The popover's left edge. */
+  left: number;
+  /** The placement actually used, after flipping. */
+  placement: PopoverPlacement;
+  /** The side of the input the popover is on, after flipping. */
+  side: PopoverSide;
+  /**
+   * The position of the arrow's center along the popover's edge facing the input:
+   * from the popover's left edge for `top`/`bottom`, from its top edge for `left`/`right`.
+   */
+  arrowOffset: number;
+}
+
+/** The side opposite to each side, used when flipping. */
+const OPPOSITE_SIDES: Record<PopoverSide, PopoverSide> = {
+  top: "bottom",
+  bottom: "top",
+  left: "right",
+  right: "left",
+};
+
+/** Clamps `value` to `[min, max]`; if the range is empty, `min` wins. */
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(value, max));
+
+/**
+ * Computes where to place a popover next to its input: on the side given by `placement`,
+ * flipped to the opposite side if it does not fit there and the opposite side has more room,
+ * then shifted along both axes to stay within `boundary`.
+ * @param reference - The input's rectangle.
+ * @param floating - The popover's size.
+ * @param options - The placement, offset and boundary, see `PopoverPositionOptions`.
+ * @returns The popover's position, the placement used and the arrow's offset.
+ */
+export const computePopoverPosition = (
+  reference: PositionRect,
+  floating: { width: number; height: number },
+  options: PopoverPositionOptions
+): PopoverPosition => {
+  const { placement, offset, boundary, padding = 2, arrowPadding = 12 } =
+    options;
+  const [preferredSide, alignment] = placement.split("-") as [
+    PopoverSide,
+    "start" | "end" | undefined,
+  ];
+
+  /** The room between the input and the boundary on a side, less the offset and padding. */
+  const getRoom = (side: PopoverSide) => {
+    switch (side) {
+      case "top":
+        return reference.top - boundary.top - offset - padding;
+      case "bottom":
+        return (
+          boundary.top +
+          boundary.height -
+          (reference.top + reference.height) -
+          offset -
+          padding
+        );
+      case "left":
+        return reference.left - boundary.left - offset - padding;
+      case "right":
+        return (
+          boundary.left +
+          boundary.width -
+          (reference.left + reference.width) -
+          offset -
+          padding
+        );
+    }
+  };
+
+  const isVertical = preferredSide === "top" || preferredSide === "bottom";
+  const mainSize = isVertical ? floating.height : floating.width;
+  // Flip to the opposite side if the popover does not fit and there is more room there
+  const oppositeSide = OPPOSITE_SIDES[preferredSide];
+  const side =
+    getRoom(preferredSide) < mainSize &&
+    getRoom(oppositeSide) > getRoom(preferredSide)
+      ? oppositeSide
+      : preferredSide;
+
+  let top: number;
+  let left: number;
+  if (isVertical) {
+    top =
+      side === "bottom"
+        ? reference.top + reference.height + offset
+        : reference.top - offset - floating.height;
+    left =
+      alignment === "start"
+        ? reference.left
+        : alignment === "end"
+          ? reference.left + reference.width - floating.width
+          : reference.left + (reference.width - floating.width) / 2;
+  } else {
+    left =
+      side === "right"
+        ? reference.left + reference.width + offset
+        : reference.left - offset - floating.width;
+    top =
+      alignment === "start"
+        ? reference.top
+        : alignment === "end"
+          ? reference.top + reference.height - floating.height
+          : reference.top + (reference.height - floating.height) / 2;
+  }
+
+  // Shift into the boundary; a popover larger than the boundary keeps its top/left edge visible
+  left = clamp(
+    left,
+    boundary.left + padding,
+    boundary.left + boundary.width - floating.width - padding
+  );
+  top = clamp(
+    top,
+    boundary.top + padding,
+    boundary.top + boundary.height - floating.height - padding
+  );
+
+  // Point the arrow at the input's center, kept away from the popover's rounded corners
+  const arrowOffset = isVertical
+    ? clamp(
+        reference.left + reference.width / 2 - left,
+        arrowPadding,
+        floating.width - arrowPadding
+      )
+    : clamp(
+        reference.top + reference.height / 2 - top,
+        arrowPadding,
+        floating.height - arrowPadding
+      );
+
+  return {
+    top,
+    left,
+    placement: (alignment ? `${side}-${alignment}` : side) as PopoverPlacement,
+    side,
+    arrowOffset,
+  };
+};
+
+/**
+ * Gets the ancestors of an element that clip its content (`overflow` other than `visible`),
+ * from the nearest to the outermost, excluding `body` and `html`.
+ * @param element - The element whose ancestors to collect.
+ */
+export const getClippingAncestors = (element: Element): Element[] => {
+  const ancestors: Element[] = [];
+  let current = element.parentElement;
+  while (
+    current &&
+    current !== document.body &&
+    current !== document.documentElement
+  ) {
+    const { overflow, overflowX, overflowY } = getComputedStyle(current);
+    if (/auto|scroll|hidden|clip/.test(overflow + overflowX + overflowY))
+      ancestors.push(current);
+    current = current.parentElement;
+  }
+  return ancestors;
+};
+
+/**
+ * Checks whether an element is scrolled out of view inside one of its clipping ancestors,
+ * e.g. an input scrolled out of a scrollable panel.
+ * @param element - The element to check.
+ * @param ancestors - The element's clipping ancestors, see `getClippingAncestors`.
+ * @returns `true` if the element is entirely outside the visible area of any ancestor.
+ */
+export const isClippedOut = (
+  element: Element,
+  ancestors: Element[]
+): boolean => {
+  const rect = element.getBoundingClientRect();
+  return ancestors.some((ancestor) => {
+    const bounds = ancestor.getBoundingClientRect();
+    return (
+      rect.bottom <= bounds.top ||
+      rect.top >= bounds.bottom ||
+      rect.right <= bounds.left ||
+      rect.left >= bounds.right
+    );
+  });
+};
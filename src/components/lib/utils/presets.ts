@@ -0,0 +1,209 @@
+import {
+  ChronoPickMode,
+  ChronoPickPreset,
+  SelectedDateType,
+} from "../types/TChronoPick";
+import { RANGE_VALUE_MODES } from "./constants";
+import {
+  addMonths,
+  addWeeks,
+  addYears,
+  startOfWeek,
+  startOfQuarter,
+} from "./dateUtils";
+
+/** Returns the day `days` days after `date` (negative to go back), at midnight. */
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Returns the last day of `date`'s month, at midnight. */
+const lastDayOfMonth = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0);
+
+/**
+ * Shapes a span of days for the picker's mode:
+ * a `DateRange` in range modes, every day of the span in Multiple mode,
+ * and the day itself in Single mode if the span is a single day (`null` otherwise).
+ * @param from The first day of the span.
+ * @param to The last day of the span.
+ * @param mode The picker's selection mode.
+ * @returns The value for the mode, or `null` if the span does not fit the mode.
+ */
+const toModeValue = (
+  from: Date,
+  to: Date,
+  mode: ChronoPickMode
+): SelectedDateType => {
+  if (RANGE_VALUE_MODES.includes(mode)) return { from, to };
+  if (mode === ChronoPickMode.Multiple) {
+    const days: Date[] = [];
+    for (let day = new Date(from); day <= to; day = addDays(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }
+  return from.getTime() === to.getTime() ? from : null;
+};
+
+/**
+ * Creates a preset for today.
+ * @param label The button text. Defaults to "Today".
+ */
+export const todayPreset = (label: string = "Today"): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) => toModeValue(today, today, mode),
+});
+
+/**
+ * Creates a preset for yesterday.
+ * @param label The button text. Defaults to "Yesterday".
+ */
+export const yesterdayPreset = (
+  label: string = "Yesterday"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) => {
+    const yesterday = addDays(today, -1);
+    return toModeValue(yesterday, yesterday, mode);
+  },
+});
+
+/**
+ * Creates a preset for the last `days` days, ending today.
+ * @param days The number of days, including today.
+ * @param label The button text. Defaults to "Last {days} days".
+ */
+export const lastDaysPreset = (
+  days: number,
+  label: string = `Last ${days} days`
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) =>
+    toModeValue(addDays(today, 1 - days), today, mode),
+});
+
+/**
+ * Creates a preset for the last `weeks` weeks, ending today.
+ * @param weeks The number of weeks.
+ * @param label The button text. Defaults to "Last {weeks} weeks".
+ */
+export const lastWeeksPreset = (
+  weeks: number,
+  label: string = `Last ${weeks} weeks`
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) =>
+    toModeValue(addDays(addWeeks(today, -weeks), 1), today, mode),
+});
+
+/**
+ * Creates a preset for the last `months` months, ending today.
+ * @param months The number of months.
+ * @param label The button text. Defaults to "Last {months} months".
+ */
+export const lastMonthsPreset = (
+  months: number,
+  label: string = `Last ${months} months`
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) =>
+    toModeValue(addDays(addMonths(today, -months), 1), today, mode),
+});
+
+/**
+ * Creates a preset for the current week, following the picker's first day of the week.
+ * @param label The button text. Defaults to "This week".
+ */
+export const thisWeekPreset = (
+  label: string = "This week"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode, firstDayOfWeek }) => {
+    const from = startOfWeek(today, firstDayOfWeek);
+    return toModeValue(from, addDays(from, 6), mode);
+  },
+});
+
+/**
+ * Creates a preset for the previous week, following the picker's first day of the week.
+ * @param label The button text. Defaults to "Last week".
+ */
+export const lastWeekPreset = (
+  label: string = "Last week"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode, firstDayOfWeek }) => {
+    const from = startOfWeek(addWeeks(today, -1), firstDayOfWeek);
+    return toModeValue(from, addDays(from, 6), mode);
+  },
+});
+
+/**
+ * Creates a preset for the current month.
+ * @param label The button text. Defaults to "This month".
+ */
+export const thisMonthPreset = (
+  label: string = "This month"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) =>
+    toModeValue(
+      new Date(today.getFullYear(), today.getMonth(), 1),
+      lastDayOfMonth(today),
+      mode
+    ),
+});
+
+/**
+ * Creates a preset for the previous month.
+ * @param label The button text. Defaults to "Last month".
+ */
+export const lastMonthPreset = (
+  label: string = "Last month"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) => {
+    const previousMonth = addMonths(
+      new Date(today.getFullYear(), today.getMonth(), 1),
+      -1
+    );
+    return toModeValue(previousMonth, lastDayOfMonth(previousMonth), mode);
+  },
+});
+
+/**
+ * Creates a preset for the current quarter, following the picker's fiscal year start.
+ * @param label The button text. Defaults to "This quarter".
+ */
+export const thisQuarterPreset = (
+  label: string = "This quarter"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode, fiscalYearStartMonth }) => {
+    const from = startOfQuarter(today, fiscalYearStartMonth);
+    return toModeValue(from, lastDayOfMonth(addMonths(from, 2)), mode);
+  },
+});
+
+/**
+ * Creates a preset for the current calendar year.
+ * @param label The button text. Defaults to "This year".
+ */
+export const thisYearPreset = (
+  label: string = "This year"
+): ChronoPickPreset => ({
+  label,
+  resolve: ({ today, mode }) => {
+    const from = new Date(today.getFullYear(), 0, 1);
+    return toModeValue(from, addDays(addYears(from, 1), -1), mode);
+  },
+});
+
+/** Common presets for analytics dashboards: Today, Last 7 days, Last 30 days, This month and This quarter. */
+export const DEFAULT_PRESETS: ChronoPickPreset[] = [
+  todayPreset(),
+  lastDaysPreset(7),
+  lastDaysPreset(30),
+  thisMonthPreset(),
+  thisQuarterPreset(),
+];
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  TimeZoneDisambiguation,
+  fromZonedTime,
+  getTimeZoneOffset,
+  toZonedTime,
+} from "./timeZoneUtils";
+
+// Wall-clock dates are local `Date`s; pin the host zone so they never fall into a local DST gap
+process.env.TZ = "UTC";
+
+const NEW_YORK = "America/New_York";
+const HOUR = 60 * 60 * 1000;
+
+/** Creates a wall-clock date (a local `Date`), also for years 0-99 and BC years. */
+const wallClock = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+) => {
+  const date = new Date(2000, 0, 1);
+  date.setFullYear(year, month, day);
+  date.setHours(hours, minutes, seconds, 0);
+  return date;
+};
+
+/** Creates a UTC instant, also for years 0-99 and BC years. */
+const utc = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0
+) => {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, day);
+  date.setUTCHours(hours, minutes, 0, 0);
+  return date;
+};
+
+describe("getTimeZoneOffset", () => {
+  it("returns the standard and daylight saving offsets", () => {
+    expect(getTimeZoneOffset(utc(2024, 0, 15, 12), NEW_YORK)).toBe(-5 * HOUR);
+    expect(getTimeZoneOffset(utc(2024, 6, 15, 12), NEW_YORK)).toBe(-4 * HOUR);
+    expect(getTimeZoneOffset(utc(2024, 6, 15, 12), "Asia/Kolkata")).toBe(
+      5.5 * HOUR
+    );
+  });
+
+  it("switches at the transition instants", () => {
+    // 2024-03-10 02:00 EST = 07:00 UTC, 2024-11-03 02:00 EDT = 06:00 UTC
+    expect(getTimeZoneOffset(utc(2024, 2, 10, 6, 59), NEW_YORK)).toBe(
+      -5 * HOUR
+    );
+    expect(getTimeZoneOffset(utc(2024, 2, 10, 7), NEW_YORK)).toBe(-4 * HOUR);
+    expect(getTimeZoneOffset(utc(2024, 10, 3, 5, 59), NEW_YORK)).toBe(
+      -4 * HOUR
+    );
+    expect(getTimeZoneOffset(utc(2024, 10, 3, 6), NEW_YORK)).toBe(-5 * HOUR);
+  });
+});
+
+describe("toZonedTime", () => {
+  it("returns the wall-clock time in the time zone", () => {
+    const zoned = toZonedTime(utc(2024, 2, 10, 7, 30), NEW_YORK);
+    expect([zoned.getFullYear(), zoned.getMonth(), zoned.getDate()]).toEqual([
+      2024, 2, 10,
+    ]);
+    expect([zoned.getHours(), zoned.getMinutes()]).toEqual([3, 30]);
+  });
+
+  it("keeps years below 100 and BC years", () => {
+    expect(toZonedTime(utc(42, 5, 1, 12), "UTC").getFullYear()).toBe(42);
+    // New York used its local mean time (UTC-4:56:02) before time zones existed
+    const early = toZonedTime(utc(42, 5, 1, 12), NEW_YORK);
+    expect([
+      early.getFullYear(),
+      early.getHours(),
+      early.getMinutes(),
+      early.getSeconds(),
+    ]).toEqual([42, 7, 3, 58]);
+    expect(toZonedTime(utc(0, 5, 1, 12), "UTC").getFullYear()).toBe(0);
+    const bc = toZonedTime(utc(-100, 5, 1, 12), "UTC");
+    expect([bc.getFullYear(), bc.getMonth(), bc.getDate()]).toEqual([
+      -100, 5, 1,
+    ]);
+  });
+});
+
+describe("fromZonedTime", () => {
+  it("converts an unambiguous wall-clock time in every mode", () => {
+    for (const disambiguation of [
+      "compatible",
+      "earlier",
+      "later",
+      "reject",
+    ] as TimeZoneDisambiguation[]) {
+      expect(
+        fromZonedTime(wallClock(2024, 6, 1, 12), NEW_YORK, disambiguation)
+      ).toEqual(utc(2024, 6, 1, 16));
+    }
+  });
+
+  describe("in the spring-forward gap (2024-03-10 02:30 New York)", () => {
+    const gap = wallClock(2024, 2, 10, 2, 30);
+
+    it.each([
+      // Moved forward by the gap: 03:30 EDT
+      ["compatible", utc(2024, 2, 10, 7, 30)],
+      // The time before the transition: 01:30 EST
+      ["earlier", utc(2024, 2, 10, 6, 30)],
+      // The time after the transition: 03:30 EDT
+      ["later", utc(2024, 2, 10, 7, 30)],
+      ["reject", null],
+    ] as [TimeZoneDisambiguation, Date | null][])(
+      "resolves %s",
+      (disambiguation, expected) => {
+        expect(fromZonedTime(gap, NEW_YORK, disambiguation)).toEqual(expected);
+      }
+    );
+  });
+
+  describe("in the fall-back overlap (2024-11-03 01:30 New York)", () => {
+    const overlap = wallClock(2024, 10, 3, 1, 30);
+
+    it.each([
+      // The earlier instant: 01:30 EDT
+      ["compatible", utc(2024, 10, 3, 5, 30)],
+      ["earlier", utc(2024, 10, 3, 5, 30)],
+      // The later instant: 01:30 EST
+      ["later", utc(2024, 10, 3, 6, 30)],
+      ["reject", null],
+    ] as [TimeZoneDisambiguation, Date | null][])(
+      "resolves %s",
+      (disambiguation, expected) => {
+        expect(fromZonedTime(overlap, NEW_YORK, disambiguation)).toEqual(
+          expected
+        );
+      }
+    );
+  });
+
+  it("handles years below 100", () => {
+    expect(fromZonedTime(wallClock(42, 5, 1, 12), "UTC")).toEqual(
+      utc(42, 5, 1, 12)
+    );
+    expect(fromZonedTime(wallClock(42, 5, 1, 7, 3, 58), NEW_YORK)).toEqual(
+      utc(42, 5, 1, 12)
+    );
+  });
+
+  it("handles BC years", () => {
+    expect(fromZonedTime(wallClock(-100, 5, 1, 12), "UTC")).toEqual(
+      utc(-100, 5, 1, 12)
+    );
+  });
+
+  it.each([
+    utc(2024, 2, 10, 6, 30),
+    utc(2024, 2, 10, 7, 30),
+    utc(2024, 10, 3, 6, 30),
+    utc(42, 0, 1, 12),
+    utc(-100, 11, 31, 23, 59),
+  ])("round-trips %s through toZonedTime", (instant) => {
+    expect(
+      fromZonedTime(toZonedTime(instant, NEW_YORK), NEW_YORK, "later")
+    ).toEqual(instant);
+  });
+});
@@ -0,0 +1,222 @@
+import { SelectedDateType } from "../types/TChronoPick";
+
+/**
+ * How a wall-clock time that does not map to exactly one instant in a time zone is resolved:
+ * - A DST gap (e.g. 02:30 on a spring-forward day) has no instant.
+ * - A DST overlap (e.g. 01:30 on a fall-back day) has two instants.
+ *
+ * - `compatible`: gaps move forward by the length of the gap, overlaps use the earlier instant.
+ * - `earlier`: the earlier of the two possible instants (for gaps, the time before the transition).
+ * - `later`: the later of the two possible instants (for gaps, the time after the transition).
+ * - `reject`: the time is treated as invalid and `fromZonedTime` returns `null`.
+ */
+export type TimeZoneDisambiguation = "compatible" | "earlier" | "later" | "reject";
+
+/** Cache of `Intl.DateTimeFormat` instances used to read wall-clock fields, keyed by time zone. */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a formatter that outputs the numeric wall-clock fields of an instant in a time zone.
+ * @param timeZone An IANA time zone name, e.g. "Europe/Berlin".
+ */
+const getFieldsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      era: "short", // Distinguishes years before 1 AD, which are otherwise printed as positive years
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Reads the wall-clock fields of an instant in a time zone.
+ * @returns The year, month (0-indexed), day, hours, minutes and seconds.
+ */
+const getWallClockFields = (instant: Date, timeZone: string) => {
+  const fields: Record<string, string> = {};
+  for (const part of getFieldsFormatter(timeZone).formatToParts(instant)) {
+    fields[part.type] = part.value;
+  }
+  const year = Number(fields.year);
+  return {
+    year: fields.era === "BC" ? 1 - year : year,
+    month: Number(fields.month) - 1,
+    day: Number(fields.day),
+    hours: Number(fields.hour),
+    minutes: Number(fields.minute),
+    seconds: Number(fields.second),
+  };
+};
+
+/**
+ * Interprets wall-clock fields as if they were UTC and returns the resulting timestamp.
+ * `setUTCFullYear` avoids `Date.UTC` mapping years 0-99 to 1900-1999.
+ */
+const wallClockAsUTC = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  milliseconds: number
+): number => {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, day);
+  date.setUTCHours(hours, minutes, seconds, milliseconds);
+  return date.getTime();
+};
+
+/**
+ * Checks whether a string is a time zone supported by the runtime's `Intl` implementation.
+ * @param timeZone The time zone name to check, e.g. "America/New_York".
+ * @returns `true` if the time zone can be used, `false` otherwise.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFieldsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Gets the UTC offset of a time zone at a given instant.
+ * @param instant The instant at which to measure the offset.
+ * @param timeZone An IANA time zone name.
+ * @returns The offset in milliseconds (wall-clock time minus UTC), e.g. 3600000 for UTC+1.
+ */
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const { year, month, day, hours, minutes, seconds } = getWallClockFields(
+    instant,
+    timeZone
+  );
+  const wholeSeconds = instant.getTime() - instant.getUTCMilliseconds();
+  return (
+    wallClockAsUTC(year, month, day, hours, minutes, seconds, 0) - wholeSeconds
+  );
+};
+
+/**
+ * Converts an instant to its wall-clock time in a time zone, represented as a local `Date`
+ * whose local fields (`getFullYear`, `getHours`, ...) equal the wall-clock time in `timeZone`.
+ * The result is meant for calendar calculations and display, not as an instant; convert it back
+ * with `fromZonedTime`.
+ * @param instant The instant to convert.
+ * @param timeZone An IANA time zone name.
+ * @returns A local Date holding the wall-clock time.
+ */
+export const toZonedTime = (instant: Date, timeZone: string): Date => {
+  const { year, month, day, hours, minutes, seconds } = getWallClockFields(
+    instant,
+    timeZone
+  );
+  const wallClock = new Date(2000, 0, 1);
+  wallClock.setFullYear(year, month, day);
+  wallClock.setHours(hours, minutes, seconds, instant.getMilliseconds());
+  return wallClock;
+};
+
+/**
+ * Converts a wall-clock time in a time zone (a local `Date` as produced by `toZonedTime`) to the instant it denotes.
+ * Wall-clock times in a DST gap or overlap are resolved according to `disambiguation`.
+ * @param wallClock A local Date whose local fields hold the wall-clock time.
+ * @param timeZone An IANA time zone name.
+ * @param disambiguation How to resolve DST gaps and overlaps. Defaults to "compatible".
+ * @returns The instant, or `null` if the time falls in a gap or overlap and `disambiguation` is "reject".
+ */
+export const fromZonedTime = (
+  wallClock: Date,
+  timeZone: string,
+  disambiguation: TimeZoneDisambiguation = "compatible"
+): Date | null => {
+  const wallAsUTC = wallClockAsUTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+  const dayInMs = 24 * 60 * 60 * 1000;
+  // The offsets in effect a day before and after; they differ only around a transition
+  const offsetBefore = getTimeZoneOffset(new Date(wallAsUTC - dayInMs), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallAsUTC + dayInMs), timeZone);
+
+  // An instant is a valid reading of the wall-clock time if the zone's offset at that instant agrees
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map((offset) => wallAsUTC - offset)
+    .filter(
+      (instant) =>
+        getTimeZoneOffset(new Date(instant), timeZone) === wallAsUTC - instant
+    )
+    .sort((a, b) => a - b);
+
+  if (candidates.length === 1) return new Date(candidates[0]);
+
+  if (candidates.length > 1) {
+    // Overlap: the wall-clock time occurs twice
+    if (disambiguation === "reject") return null;
+    return new Date(
+      disambiguation === "later"
+        ? candidates[candidates.length - 1]
+        : candidates[0]
+    );
+  }
+
+  // Gap: the wall-clock time is skipped. Reading it with the offset before the
+  // transition lands after the gap, reading it with the offset after lands before it.
+  if (disambiguation === "reject") return null;
+  return new Date(
+    disambiguation === "earlier"
+      ? wallAsUTC - offsetAfter
+      : wallAsUTC - offsetBefore
+  );
+};
+
+/**
+ * Applies a function to every date of a selected value, keeping its shape (`Date`, `Date[]` or `DateRange`).
+ * @param value The selected value.
+ * @param mapDate The function applied to each date.
+ * @returns A new value of the same shape, or `null` if `value` is `null`.
+ */
+export const mapSelectedDates = (
+  value: SelectedDateType,
+  mapDate: (date: Date) => Date
+): SelectedDateType => {
+  if (!value) return value;
+  if (value instanceof Date) return mapDate(value);
+  if (Array.isArray(value)) return value.map(mapDate);
+  return {
+    from: value.from && mapDate(value.from),
+    to: value.to && mapDate(value.to),
+  };
+};
+
+/**
+ * Converts a set of days given as an array of dates or a predicate (as in `disabledDates` and `modifiers`)
+ * so it can be matched against wall-clock dates in a time zone. Array dates are converted with `toZonedTime`;
+ * a predicate receives the instant at which the wall-clock date starts in the time zone.
+ * @param matcher An array of dates or a predicate over instants.
+ * @param timeZone An IANA time zone name.
+ * @returns The array of wall-clock dates, or a predicate over wall-clock dates.
+ */
+export const toZonedMatcher = (
+  matcher: Date[] | ((date: Date) => boolean),
+  timeZone: string
+): Date[] | ((date: Date) => boolean) =>
+  Array.isArray(matcher)
+    ? matcher.map((date) => toZonedTime(date, timeZone))
+    : (date: Date) => matcher(fromZonedTime(date, timeZone) ?? date);
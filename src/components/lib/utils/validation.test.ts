@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { ChronoPickMode } from "../types/TChronoPick";
+import { SelectionValidationOptions, validateSelection } from "./validation";
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/** Validates a value with the given mode and constraints. */
+const validate = (
+  value: Parameters<typeof validateSelection>[0],
+  options: Partial<SelectionValidationOptions> = {}
+) =>
+  validateSelection(value, {
+    mode: ChronoPickMode.Single,
+    formatDate,
+    ...options,
+  });
+
+describe("validateSelection", () => {
+  it("accepts a valid value and an optional empty value", () => {
+    expect(validate(new Date(2024, 2, 5))).toBeNull();
+    expect(validate(null)).toBeNull();
+    expect(
+      validate({ from: null, to: null }, { mode: ChronoPickMode.Range })
+    ).toBeNull();
+  });
+
+  it("requires a date, or both ends of a range", () => {
+    expect(validate(null, { required: true })).toEqual({
+      code: "required",
+      message: "Select a date",
+    });
+    expect(
+      validate([], { mode: ChronoPickMode.Multiple, required: true })?.code
+    ).toBe("required");
+    expect(
+      validate(
+        { from: new Date(2024, 2, 5), to: null },
+        { mode: ChronoPickMode.Range, required: true }
+      )
+    ).toEqual({ code: "required", message: "Select a date range" });
+  });
+
+  it("compares minDate and maxDate by day, or by time with enableTime", () => {
+    const minDate = new Date(2024, 2, 5, 12, 0);
+    const maxDate = new Date(2024, 2, 10, 12, 0);
+    const morning = new Date(2024, 2, 5, 9, 0);
+    const evening = new Date(2024, 2, 10, 18, 0);
+    expect(validate(morning, { minDate })).toBeNull();
+    expect(validate(evening, { maxDate })).toBeNull();
+    expect(validate(morning, { minDate, enableTime: true })).toEqual({
+      code: "minDate",
+      message: "Select a date on or after 2024-3-5",
+      date: morning,
+    });
+    expect(validate(evening, { maxDate, enableTime: true })).toEqual({
+      code: "maxDate",
+      message: "Select a date on or before 2024-3-10",
+      date: evening,
+    });
+    expect(validate(new Date(2024, 2, 4), { minDate })?.code).toBe("minDate");
+  });
+
+  it("rejects a period only if it lies entirely outside minDate and maxDate", () => {
+    const options = {
+      mode: ChronoPickMode.Month,
+      minDate: new Date(2024, 2, 15),
+      maxDate: new Date(2024, 5, 15),
+    };
+    expect(validate(new Date(2024, 2, 1), options)).toBeNull();
+    expect(validate(new Date(2024, 5, 1), options)).toBeNull();
+    expect(validate(new Date(2024, 1, 1), options)?.code).toBe("minDate");
+    expect(validate(new Date(2024, 6, 1), options)?.code).toBe("maxDate");
+  });
+
+  it("rejects disabled dates, given as a list or a function", () => {
+    const disabled = new Date(2024, 2, 5);
+    expect(validate(disabled, { disabledDates: [disabled] })).toEqual({
+      code: "disabled",
+      message: "2024-3-5 is not available",
+      date: disabled,
+    });
+    expect(
+      validate([new Date(2024, 2, 4), new Date(2024, 2, 9)], {
+        mode: ChronoPickMode.Multiple,
+        disabledDates: (date) => date.getDay() === 6,
+      })
+    ).toEqual({
+      code: "disabled",
+      message: "2024-3-9 is not available",
+      date: new Date(2024, 2, 9),
+    });
+  });
+
+  it("checks the length of a range, counting both ends", () => {
+    const options = {
+      mode: ChronoPickMode.Range,
+      minRangeDays: 3,
+      maxRangeDays: 7,
+    };
+    const from = new Date(2024, 2, 10);
+    expect(validate({ from, to: new Date(2024, 2, 12) }, options)).toBeNull();
+    expect(validate({ from, to: new Date(2024, 2, 16) }, options)).toBeNull();
+    expect(validate({ from, to: new Date(2024, 2, 11) }, options)).toEqual({
+      code: "minRangeDays",
+      message: "Select a range of at least 3 days",
+    });
+    expect(validate({ from, to: new Date(2024, 2, 17) }, options)).toEqual({
+      code: "maxRangeDays",
+      message: "Select a range of at most 7 days",
+    });
+  });
+
+  it("reports the first error in the order of the checks", () => {
+    const date = new Date(2024, 2, 5);
+    expect(
+      validate(date, {
+        minDate: new Date(2024, 2, 6),
+        disabledDates: [date],
+      })?.code
+    ).toBe("minDate");
+    expect(
+      validate(
+        { from: date, to: new Date(2024, 2, 6) },
+        {
+          mode: ChronoPickMode.Range,
+          disabledDates: [date],
+          minRangeDays: 3,
+        }
+      )?.code
+    ).toBe("disabled");
+  });
+});
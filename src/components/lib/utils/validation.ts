@@ -0,0 +1,169 @@
+import {
+  ChronoPickMode,
+  ChronoPickValidationError,
+  DateRange,
+  SelectedDateType,
+} from "../types/TChronoPick";
+import { PERIOD_MODES, RANGE_VALUE_MODES } from "./constants";
+import {
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  getRangeDayCount,
+  isAfterDay,
+  isBeforeDay,
+  isDateDisabled,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from "./dateUtils";
+
+/**
+ * Options of `validateSelection`: the picker's mode and constraints, as wall-clock dates.
+ */
+export interface SelectionValidationOptions {
+  mode: ChronoPickMode;
+  required?: boolean;
+  minDate?: Date;
+  maxDate?: Date;
+  disabledDates?: Date[] | ((date: Date) => boolean);
+  /** If true, `minDate` and `maxDate` are compared with the selected times, otherwise by day. */
+  enableTime?: boolean;
+  minRangeDays?: number;
+  maxRangeDays?: number;
+  /** The month in which the fiscal year starts, for quarters in `Quarter` mode. */
+  fiscalYearStartMonth?: number;
+  /** Formats a date for the error messages. */
+  formatDate: (date: Date) => string;
+}
+
+/**
+ * Gets the first and last day of the period (month, quarter or year) a date selects in the period modes.
+ * @param date A selected date.
+ * @param mode The selection mode, one of `PERIOD_MODES`.
+ * @param fiscalYearStartMonth The month in which the fiscal year starts.
+ * @returns The start and end of the period.
+ */
+const getPeriodBounds = (
+  date: Date,
+  mode: ChronoPickMode,
+  fiscalYearStartMonth: number
+): DateRange => {
+  switch (mode) {
+    case ChronoPickMode.Month:
+    case ChronoPickMode.MonthRange:
+      return { from: startOfMonth(date), to: endOfMonth(date) };
+    case ChronoPickMode.Quarter:
+      return {
+        from: startOfQuarter(date, fiscalYearStartMonth),
+        to: endOfQuarter(date, fiscalYearStartMonth),
+      };
+    default:
+      return { from: startOfYear(date), to: endOfYear(date) };
+  }
+};
+
+/**
+ * Validates a selected value against the picker's built-in constraints, in this order:
+ * a missing selection (`required`), dates outside `minDate`/`maxDate` (in period modes, periods
+ * entirely outside them), disabled dates, and the length of a range in `Range` mode.
+ * @param value The selected value, as wall-clock dates.
+ * @param options The mode and constraints.
+ * @returns The first error found, or `null` if the value is valid.
+ */
+export const validateSelection = (
+  value: SelectedDateType,
+  options: SelectionValidationOptions
+): ChronoPickValidationError | null => {
+  const {
+    mode,
+    required = false,
+    minDate,
+    maxDate,
+    disabledDates,
+    enableTime = false,
+    minRangeDays,
+    maxRangeDays,
+    fiscalYearStartMonth = 0,
+    formatDate,
+  } = options;
+  const isRangeValue = RANGE_VALUE_MODES.includes(mode);
+  const range = isRangeValue ? (value as DateRange | null) : null;
+  /** The selected dates: a single date, the dates of `Multiple` mode, or the picked ends of a range. */
+  const dates = isRangeValue
+    ? [range?.from, range?.to].filter((date): date is Date => !!date)
+    : Array.isArray(value)
+      ? value
+      : value instanceof Date
+        ? [value]
+        : [];
+
+  const isComplete = isRangeValue
+    ? !!range?.from && !!range?.to
+    : dates.length > 0;
+  if (required && !isComplete) {
+    return {
+      code: "required",
+      message: isRangeValue ? "Select a date range" : "Select a date",
+    };
+  }
+
+  const isPeriodMode = PERIOD_MODES.includes(mode);
+  for (const date of dates) {
+    // A period is out of range only if it lies entirely before `minDate` or after `maxDate`
+    const { from: start, to: end } = isPeriodMode
+      ? getPeriodBounds(date, mode, fiscalYearStartMonth)
+      : { from: date, to: date };
+    const isBeforeMin =
+      !!minDate &&
+      (enableTime && !isPeriodMode
+        ? date.getTime() < minDate.getTime()
+        : isBeforeDay(end!, minDate));
+    if (isBeforeMin) {
+      return {
+        code: "minDate",
+        message: `Select a date on or after ${formatDate(minDate!)}`,
+        date,
+      };
+    }
+    const isAfterMax =
+      !!maxDate &&
+      (enableTime && !isPeriodMode
+        ? date.getTime() > maxDate.getTime()
+        : isAfterDay(start!, maxDate));
+    if (isAfterMax) {
+      return {
+        code: "maxDate",
+        message: `Select a date on or before ${formatDate(maxDate!)}`,
+        date,
+      };
+    }
+    if (
+      !isPeriodMode &&
+      isDateDisabled(date, undefined, undefined, disabledDates)
+    ) {
+      return {
+        code: "disabled",
+        message: `${formatDate(date)} is not available`,
+        date,
+      };
+    }
+  }
+
+  if (mode === ChronoPickMode.Range && range?.from && range.to) {
+    const dayCount = Math.abs(getRangeDayCount(range.from, range.to));
+    if (minRangeDays && dayCount < minRangeDays) {
+      return {
+        code: "minRangeDays",
+        message: `Select a range of at least ${minRangeDays} days`,
+      };
+    }
+    if (maxRangeDays && dayCount > maxRangeDays) {
+      return {
+        code: "maxRangeDays",
+        message: `Select a range of at most ${maxRangeDays} days`,
+      };
+    }
+  }
+  return null;
+};
@@ -1,20 +1,10 @@
 import React from "react";
 import {
   ChronoPickMode,
-  SelectedDateType,
-  DateRange,
+  ChronoPickProps,
   DayState,
-  CalendarView,
 } from "./../lib/types/TChronoPick";
-import {
-  isSameDay,
-  isDateDisabled,
-  isDateInRange,
-  isBeforeDay,
-  formatDate,
-  generateDateId,
-} from "./../lib/utils/dateUtils";
-import { DAY_NAMES_SHORT } from "./../lib/utils/constants";
+import { localizeDigits } from "./../lib/utils/localeUtils";
 import { useChronoPickCore } from "./../lib/hooks/useChronoPickCore";
 import { cn } from "./../lib/utils/cn";
 import style from "../styles/DayView.module.css";
@@ -26,43 +16,31 @@ type CoreReturnType = ReturnType<typeof useChronoPickCore>;
  * Props for the DayView component.
  */
 interface DayViewProps {
-  /** Array of `Date` objects for the days to render in the current month's grid. */
-  daysToRender: CoreReturnType["daysToRender"];
-  /**
-   * Offset for the first day of the month (0 for Sunday, 1 for Monday, etc.).
-   * This is used to correctly position the first day in the 7-column grid.
-   */
-  firstDayOffset: CoreReturnType["firstDayOffset"];
-  /** The date element that currently has keyboard focus within the calendar grid, or `null`. */
-  focusedDate: CoreReturnType["focusedDate"] | null;
-  /** Callback function invoked when a day cell is clicked. */
-  handleDayClick: CoreReturnType["handleDayClick"];
-  /**
-   * Function to set the temporary end date for range selection visualization (on hover).
-   * Called when the mouse enters a day cell in range mode.
-   */
-  setTempRangeEnd: CoreReturnType["setTempRangeEnd"];
-  /** The temporary end date used for visualizing the range selection on hover. */
-  tempRangeEnd: CoreReturnType["tempRangeEnd"];
   /**
-   * Function to set the `focusedDate`. Typically used on mouse enter to move
-   * keyboard focus to the hovered day.
+   * The week rows of the displayed month's grid. Each row holds seven cells,
+   * with `null` for days outside the month, and the row's week number.
    */
-  setFocusedDate: CoreReturnType["setFocusedDate"];
-
-  // Props passed down from the main ChronoPick component for context:
-  /** The currently selected date or dates (type depends on `mode`). */
-  value: SelectedDateType;
-  /** The current selection mode (`Single`, `Multiple`, or `Range`). */
+  weeksToRender: CoreReturnType["weeksToRender"];
+  /** The first day of the week (0 for Sunday, 1 for Monday, etc.), used to order the day-name header. */
+  firstDayOfWeek: CoreReturnType["firstDayOfWeek"];
+  /** Names and digits for the configured locale. */
+  localeData: CoreReturnType["localeData"];
+  /** Callback function invoked when a week number is clicked (Week and Range modes). */
+  handleWeekSelect: CoreReturnType["handleWeekSelect"];
+  /** If true, a week number column is rendered to the left of the grid. */
+  showWeekNumbers?: boolean;
+  /** Determines the state(s) of a day cell (selected, disabled, today, in range, etc.). */
+  getDayState: CoreReturnType["getDayState"];
+  /** Gets the id, ARIA attributes and event handlers of a day cell button. */
+  getDayProps: CoreReturnType["getDayProps"];
+  /** Gets the class names of the `modifiers` matching a day. */
+  getDayModifierClassNames: CoreReturnType["getDayModifierClassNames"];
+  /** Gets the badge and description of a day from the `dayMeta` prop. */
+  getDayMeta: CoreReturnType["getDayMeta"];
+  /** The current selection mode; week numbers are clickable in `Range` and `Week` modes. */
   mode: ChronoPickMode;
-  /** Optional minimum selectable date. */
-  minDate?: Date;
-  /** Optional maximum selectable date. */
-  maxDate?: Date;
-  /**
-   * Optional configuration for disabled dates (array of dates or a predicate function).
-   */
-  disabledDates?: Date[] | ((date: Date) => boolean);
+  /** Renders the content of a day cell; defaults to the localized day number. */
+  renderDay?: ChronoPickProps["renderDay"];
 }
 
 /**
@@ -72,185 +50,174 @@ interface DayViewProps {
  * with appropriate styling and ARIA attributes based on its state (selected, disabled, today, etc.).
  */
 const DayView: React.FC<DayViewProps> = ({
-  daysToRender,
-  firstDayOffset,
-  focusedDate,
-  handleDayClick,
-  setTempRangeEnd,
-  tempRangeEnd,
-  setFocusedDate,
-  value,
+  weeksToRender,
+  firstDayOfWeek,
+  localeData,
+  handleWeekSelect,
+  showWeekNumbers = false,
+  getDayState,
+  getDayProps,
+  getDayModifierClassNames,
+  getDayMeta,
   mode,
-  minDate,
-  maxDate,
-  disabledDates,
+  renderDay: renderDayContent,
 }) => {
-  /**
-   * Determines the visual and functional state(s) of a given day cell.
-   * This includes states like selected, disabled, today, in-range, etc.
-   * @param day The `Date` object to evaluate.
-   * @returns An array of `DayState` enums representing all applicable states for the day.
-   */
-  const getDayState = (day: Date): DayState[] => {
-    const states: DayState[] = [];
-    if (isSameDay(day, new Date())) states.push(DayState.Today); // Check if it's today
-    if (isDateDisabled(day, minDate, maxDate, disabledDates))
-      states.push(DayState.Disabled); // Check if disabled
-
-    // Determine selection state based on mode
-    if (
-      mode === ChronoPickMode.Single &&
-      value instanceof Date &&
-      isSameDay(day, value)
-    ) {
-      states.push(DayState.Selected);
-    } else if (
-      mode === ChronoPickMode.Multiple &&
-      Array.isArray(value) &&
-      value.some((d) => isSameDay(d, day))
-    ) {
-      states.push(DayState.Selected);
-    } else if (
-      mode === ChronoPickMode.Range &&
-      typeof value === "object" &&
-      value
-    ) {
-      const range = value as DateRange;
-      if (range.from && isSameDay(day, range.from))
-        states.push(DayState.StartRange, DayState.Selected);
-      if (range.to && isSameDay(day, range.to))
-        states.push(DayState.EndRange, DayState.Selected);
-      if (range.from && range.to && isDateInRange(day, range))
-        states.push(DayState.InRange);
-
-      // Handle hover effect for range selection when 'from' is selected but 'to' is not
-      if (
-        range.from &&
-        !range.to &&
-        tempRangeEnd &&
-        !states.includes(DayState.Disabled)
-      ) {
-        // Ensure tempFrom is always before tempTo for isDateInRange check
-        const tempFrom = isBeforeDay(range.from, tempRangeEnd)
-          ? range.from
-          : tempRangeEnd;
-        const tempTo = isBeforeDay(range.from, tempRangeEnd)
-          ? tempRangeEnd
-          : range.from;
-        if (isDateInRange(day, { from: tempFrom, to: tempTo })) {
-          states.push(DayState.HoverRange);
-        }
-      }
-    }
-    // If no specific state applies, it's a default day
-    if (states.length === 0) states.push(DayState.Default);
-    return states;
-  };
+  /** Whether week numbers are clickable to select their week (Range and Week modes). */
+  const isRangeValueMode =
+    mode === ChronoPickMode.Range || mode === ChronoPickMode.Week;
 
   /**
-   * Generates a string of Tailwind CSS classes for a day cell based on its state(s).
+   * Generates a string of Tailwind CSS classes for a day cell based on its state(s),
+   * followed by the class names of the `modifiers` matching the day.
    * @param day The `Date` of the cell.
    * @param dayStates An array of `DayState` enums for the day, determined by `getDayState`.
    * @returns A string of CSS classes.
    */
   const dayClasses = (day: Date, dayStates: DayState[]): string => {
-    return cn(style.dayButton, {
-      [style.dayButtonDisabled]: dayStates.includes(DayState.Disabled),
-      [style.dayButtonHover]: !dayStates.includes(DayState.Disabled),
-      [style.today]:
-        dayStates.includes(DayState.Today) &&
-        !dayStates.includes(DayState.Selected) &&
-        !dayStates.includes(DayState.InRange),
-      [style.selected]: dayStates.includes(DayState.Selected),
-      [style.startRange]: dayStates.includes(DayState.StartRange),
-      [style.endRange]: dayStates.includes(DayState.EndRange),
-      [style.inRange]:
-        dayStates.includes(DayState.InRange) &&
-        !dayStates.includes(DayState.Selected) &&
-        !dayStates.includes(DayState.StartRange) &&
-        !dayStates.includes(DayState.EndRange),
-      [style.startRangeRounded]:
-        dayStates.includes(DayState.StartRange) &&
-        dayStates.includes(DayState.InRange) &&
-        !dayStates.includes(DayState.EndRange),
-      [style.endRangeRounded]:
-        dayStates.includes(DayState.EndRange) &&
-        dayStates.includes(DayState.InRange) &&
-        !dayStates.includes(DayState.StartRange),
-      [style.hoverRange]:
-        dayStates.includes(DayState.HoverRange) &&
-        !dayStates.includes(DayState.Selected),
-      // [style.focused]:
-      //   focusedDate &&
-      //   isSameDay(day, focusedDate) &&
-      //   !dayStates.includes(DayState.Disabled),
-    });
+    return cn(
+      style.dayButton,
+      {
+        [style.dayButtonDisabled]: dayStates.includes(DayState.Disabled),
+        [style.dayButtonHover]: !dayStates.includes(DayState.Disabled),
+        [style.today]:
+          dayStates.includes(DayState.Today) &&
+          !dayStates.includes(DayState.Selected) &&
+          !dayStates.includes(DayState.InRange),
+        [style.selected]: dayStates.includes(DayState.Selected),
+        [style.startRange]: dayStates.includes(DayState.StartRange),
+        [style.endRange]: dayStates.includes(DayState.EndRange),
+        [style.inRange]:
+          dayStates.includes(DayState.InRange) &&
+          !dayStates.includes(DayState.Selected) &&
+          !dayStates.includes(DayState.StartRange) &&
+          !dayStates.includes(DayState.EndRange),
+        [style.startRangeRounded]:
+          dayStates.includes(DayState.StartRange) &&
+          dayStates.includes(DayState.InRange) &&
+          !dayStates.includes(DayState.EndRange),
+        [style.endRangeRounded]:
+          dayStates.includes(DayState.EndRange) &&
+          dayStates.includes(DayState.InRange) &&
+          !dayStates.includes(DayState.StartRange),
+        [style.hoverRange]:
+          dayStates.includes(DayState.HoverRange) &&
+          !dayStates.includes(DayState.Selected),
+        // [style.focused]:
+        //   focusedDate &&
+        //   isSameDay(day, focusedDate) &&
+        //   !dayStates.includes(DayState.Disabled),
+      },
+      getDayModifierClassNames(day)
+    );
+  };
+
+  /**
+   * Renders a single day cell button with its state classes, and the id, ARIA attributes and handlers from `getDayProps`.
+   * Its content is the day number, or the output of the `renderDay` prop, followed by the `dayMeta` badge if any.
+   * @param day The `Date` of the cell.
+   */
+  const renderDay = (day: Date) => {
+    const dayProps = getDayProps(day);
+    const states = getDayState(day);
+    const badge = getDayMeta(day)?.badge;
+    return (
+      <button
+        key={dayProps.id}
+        {...dayProps}
+        className={dayClasses(day, states)}
+      >
+        {renderDayContent
+          ? renderDayContent(day, states)
+          : localizeDigits(String(day.getDate()), localeData)}
+        {/* The badge is decorative; the day's description is part of its aria-label */}
+        {badge && (
+          <span className={style.badge} aria-hidden="true">
+            {badge}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  /**
+   * Renders the week number cell at the start of a row. It is a button in modes
+   * where clicking it selects the week, and a plain row header otherwise.
+   * @param week The week row.
+   */
+  const renderWeekNumber = (week: CoreReturnType["weeksToRender"][number]) => {
+    const label = localizeDigits(String(week.weekNumber), localeData);
+    if (!isRangeValueMode) {
+      return (
+        <div role="rowheader" className={style.weekNumber}>
+          {label}
+        </div>
+      );
+    }
+    return (
+      <button
+        type="button"
+        role="rowheader"
+        tabIndex={-1}
+        onClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          handleWeekSelect(week.weekStart);
+        }}
+        className={cn(style.weekNumber, style.weekNumberButton)}
+        aria-label={`Select week ${week.weekNumber}`}
+      >
+        {label}
+      </button>
+    );
   };
 
   return (
     <>
-      {/* Header row for day names (Sun, Mon, etc.) */}
-      <div className={style.dayHeader} aria-hidden="true">
-        {DAY_NAMES_SHORT.map((day) => (
-          <div key={day} role="columnheader" aria-label={day}>
-            {day.substring(0, 2)}
+      {/* Header row for day names (Sun, Mon, etc.), starting at the configured first day of the week */}
+      <div
+        className={cn(style.dayHeader, {
+          [style.withWeekNumbers]: showWeekNumbers,
+        })}
+        aria-hidden="true"
+      >
+        {showWeekNumbers && (
+          <div role="columnheader" aria-label="Week number">
+            #
           </div>
-        ))}
+        )}
+        {Array.from({ length: 7 }, (_, i) => (firstDayOfWeek + i) % 7).map(
+          (dayIndex) => (
+            <div
+              key={dayIndex}
+              role="columnheader"
+              aria-label={localeData.dayNamesFull[dayIndex]}
+            >
+              {localeData.dayNamesMin[dayIndex]}
+            </div>
+          )
+        )}
       </div>
-      {/* Grid for the days of the month */}
+      {/* Grid for the days of the month, one row per week */}
       <div className={style.dayGrid} role="rowgroup">
-        {/* Render empty cells for the offset of the first day of the month */}
-        {Array(firstDayOffset)
-          .fill(null)
-          .map((_, i) => (
-            <div key={`empty-${i}`} role="presentation" />
-          ))}
-
-        {/* Render buttons for each day in the month */}
-        {daysToRender.map((day) => {
-          const states = getDayState(day);
-          const isDisabled = states.includes(DayState.Disabled);
-          const isFocused = focusedDate && isSameDay(day, focusedDate);
-          const id = generateDateId(day, CalendarView.Days); // Unique ID for ARIA active descendant
-
-          return (
-            <button
-              type="button"
-              id={id}
-              key={id}
-              onClick={(e) => {
-                e.preventDefault(); // Prevent default button behavior
-                e.stopPropagation(); // Stop event from bubbling up
-                handleDayClick(day);
-              }}
-              // Update focused date on mouse enter for visual feedback and keyboard context
-              onMouseEnter={() => {
-                if (mode === ChronoPickMode.Range && !isDisabled)
-                  setTempRangeEnd(day); // For range hover visualization
-                if (!isDisabled && !isSameDay(day, focusedDate || undefined))
-                  setFocusedDate(day);
-              }}
-              // Clear temporary range end on mouse leave
-              onMouseLeave={() =>
-                mode === ChronoPickMode.Range && setTempRangeEnd(null)
-              }
-              className={dayClasses(day, states)}
-              disabled={isDisabled}
-              aria-pressed={
-                states.includes(DayState.Selected) ||
-                states.includes(DayState.StartRange) ||
-                states.includes(DayState.EndRange)
-              }
-              aria-label={`${formatDate(day, "Day, Month DD, YYYY")}${
-                isDisabled ? " (disabled)" : ""
-              }${isFocused ? ", focused" : ""}`}
-              role="gridcell"
-              tabIndex={-1} // Make cells focusable via keyboard navigation (aria-activedescendant)
-            >
-              {day.getDate()}
-            </button>
-          );
-        })}
+        {weeksToRender.map((week) => (
+          <div
+            key={week.weekStart.getTime()}
+            role="row"
+            className={cn(style.dayRow, {
+              [style.withWeekNumbers]: showWeekNumbers,
+            })}
+          >
+            {showWeekNumbers && renderWeekNumber(week)}
+            {/* Empty cells pad the days outside the displayed month */}
+            {week.days.map((day, i) =>
+              day ? (
+                renderDay(day)
+              ) : (
+                <div key={`empty-${i}`} role="presentation" />
+              )
+            )}
+          </div>
+        ))}
       </div>
     </>
   );
@@ -1,7 +1,12 @@
 import React from "react";
-import { CalendarView, SelectedDateType } from "./../lib/types/TChronoPick";
-import { MONTH_NAMES_FULL } from "./../lib/utils/constants";
 import {
+  CalendarView,
+  ChronoPickMode,
+  DateRange,
+  SelectedDateType,
+} from "./../lib/types/TChronoPick";
+import {
+  formatDate,
   generateDateId,
   isAfterDay,
   isBeforeDay,
@@ -17,9 +22,13 @@ interface MonthViewProps {
   currentMonthDate: CoreReturnType["currentMonthDate"];
   handleMonthSelect: CoreReturnType["handleMonthSelect"];
   setFocusedDate: CoreReturnType["setFocusedDate"];
+  tempRangeEnd: CoreReturnType["tempRangeEnd"];
+  setTempRangeEnd: CoreReturnType["setTempRangeEnd"];
   value: SelectedDateType;
+  mode: ChronoPickMode;
   minDate?: Date;
   maxDate?: Date;
+  locale?: string;
 }
 
 const MonthView: React.FC<MonthViewProps> = ({
@@ -28,10 +37,22 @@ const MonthView: React.FC<MonthViewProps> = ({
   currentMonthDate,
   handleMonthSelect,
   setFocusedDate,
+  tempRangeEnd,
+  setTempRangeEnd,
   value,
+  mode,
   minDate,
   maxDate,
+  locale,
 }) => {
+  /** Whether months are picked as a range (MonthRange mode). */
+  const isMonthRange = mode === ChronoPickMode.MonthRange;
+  const range = (
+    isMonthRange && typeof value === "object" && value ? value : {}
+  ) as Partial<DateRange>;
+  /** Month index (year * 12 + month) of a date, for comparing months across years. */
+  const toMonthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+
   return (
     <div className={styles.gridContainer}>
       {monthsToRender.map((monthName, index) => {
@@ -43,10 +64,24 @@ const MonthView: React.FC<MonthViewProps> = ({
 
         const id = generateDateId(monthDate, CalendarView.Months);
 
-        const isCurrentMonthSelected =
-          value instanceof Date &&
-          value.getMonth() === index &&
-          value.getFullYear() === currentMonthDate.getFullYear();
+        const monthIndex = toMonthIndex(monthDate);
+        const isCurrentMonthSelected = isMonthRange
+          ? (!!range.from && toMonthIndex(range.from) === monthIndex) ||
+            (!!range.to && toMonthIndex(range.to) === monthIndex)
+          : value instanceof Date && toMonthIndex(value) === monthIndex;
+
+        // MonthRange: months strictly between `from` and `to`, or between `from` and the hovered month
+        const rangeEnd = range.to ?? (range.from && tempRangeEnd);
+        const [rangeLow, rangeHigh] =
+          range.from && rangeEnd
+            ? [toMonthIndex(range.from), toMonthIndex(rangeEnd)].sort(
+                (a, b) => a - b
+              )
+            : [];
+        const isBetweenRange =
+          rangeLow !== undefined &&
+          monthIndex > rangeLow &&
+          monthIndex < rangeHigh;
 
         const firstDayOfMonth = new Date(
           currentMonthDate.getFullYear(),
@@ -68,6 +103,9 @@ const MonthView: React.FC<MonthViewProps> = ({
           !isMonthDisabled && styles.hoverable,
           isFocused && !isMonthDisabled && styles.focused,
           isCurrentMonthSelected && !isMonthDisabled && styles.selected,
+          isBetweenRange &&
+            !isCurrentMonthSelected &&
+            (range.to ? styles.inRange : styles.hoverRange),
           isMonthDisabled && styles.disabled,
         ]
           .filter(Boolean)
@@ -83,10 +121,15 @@ const MonthView: React.FC<MonthViewProps> = ({
             }}
             onMouseEnter={() => {
               if (!isMonthDisabled) setFocusedDate(monthDate);
+              if (isMonthRange && !isMonthDisabled) setTempRangeEnd(monthDate); // For range hover visualization
             }}
+            onMouseLeave={() => isMonthRange && setTempRangeEnd(null)}
             className={buttonClass}
-            aria-label={`Select month ${MONTH_NAMES_FULL[index]}${
-              isFocused ? ", focused" : ""
+            aria-label={`Select month ${formatDate(monthDate, "MMMM", false, {
+              locale,
+            })}${
+              isCurrentMonthSelected ? ", selected" : ""
+            }${isFocused ? ", focused" : ""
             }${isMonthDisabled ? " (disabled)" : ""}`}
             role="gridcell"
             tabIndex={-1}
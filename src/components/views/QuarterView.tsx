@@ -0,0 +1,141 @@
+import React from "react";
+import {
+  CalendarView,
+  ChronoPickMode,
+  DateRange,
+  SelectedDateType,
+} from "./../lib/types/TChronoPick";
+import {
+  addMonths,
+  endOfQuarter,
+  formatDate,
+  generateDateId,
+  isAfterDay,
+  isBeforeDay,
+  isSameDay,
+  startOfQuarter,
+} from "./../lib/utils/dateUtils";
+import { useChronoPickCore } from "./../lib/hooks/useChronoPickCore";
+import styles from "../styles/QuarterView.module.css";
+
+type CoreReturnType = ReturnType<typeof useChronoPickCore>;
+
+interface QuarterViewProps {
+  quartersToRender: CoreReturnType["quartersToRender"];
+  focusedDate: CoreReturnType["focusedDate"] | null;
+  handleQuarterSelect: CoreReturnType["handleQuarterSelect"];
+  setFocusedDate: CoreReturnType["setFocusedDate"];
+  fiscalYearStartMonth: CoreReturnType["fiscalYearStartMonth"];
+  today: CoreReturnType["today"];
+  value: SelectedDateType;
+  mode: ChronoPickMode;
+  minDate?: Date;
+  maxDate?: Date;
+  locale?: string;
+}
+
+const QuarterView: React.FC<QuarterViewProps> = ({
+  quartersToRender,
+  focusedDate,
+  handleQuarterSelect,
+  setFocusedDate,
+  fiscalYearStartMonth,
+  today,
+  value,
+  mode,
+  minDate,
+  maxDate,
+  locale,
+}) => {
+  const formatOptions = { locale, fiscalYearStartMonth };
+  const currentQuarterStart = startOfQuarter(today, fiscalYearStartMonth);
+
+  return (
+    <div className={styles.gridContainer}>
+      {quartersToRender.map((quarterStart) => {
+        const quarterEnd = endOfQuarter(quarterStart, fiscalYearStartMonth);
+        const id = generateDateId(quarterStart, CalendarView.Quarters);
+        const isFocused =
+          !!focusedDate &&
+          isSameDay(
+            startOfQuarter(focusedDate, fiscalYearStartMonth),
+            quarterStart
+          );
+        const isSelected =
+          mode === ChronoPickMode.Quarter &&
+          !!(value as DateRange)?.from &&
+          isSameDay(
+            startOfQuarter((value as DateRange).from!, fiscalYearStartMonth),
+            quarterStart
+          );
+        const isQuarterDisabled =
+          (minDate && isBeforeDay(quarterEnd, minDate)) ||
+          (maxDate && isAfterDay(quarterStart, maxDate));
+        const isCurrentQuarter = isSameDay(quarterStart, currentQuarterStart);
+
+        const quarterLabel = formatDate(
+          quarterStart,
+          "[Q]Q",
+          false,
+          formatOptions
+        );
+        const firstMonth = formatDate(quarterStart, "MMM", false, formatOptions);
+        const lastMonth = formatDate(
+          addMonths(quarterStart, 2),
+          "MMM",
+          false,
+          formatOptions
+        );
+
+        const buttonClass = [
+          styles.quarterButton,
+          !isQuarterDisabled && styles.hoverable,
+          isFocused && !isQuarterDisabled && styles.focused,
+          isCurrentQuarter &&
+            !isQuarterDisabled &&
+            !isSelected &&
+            styles.currentQuarter,
+          isSelected && !isQuarterDisabled && styles.selected,
+          isQuarterDisabled && styles.disabled,
+        ]
+          .filter(Boolean)
+          .join(" ");
+
+        return (
+          <button
+            type="button"
+            id={id}
+            key={id}
+            onClick={() => {
+              if (!isQuarterDisabled) handleQuarterSelect(quarterStart);
+            }}
+            onMouseEnter={() => {
+              if (!isQuarterDisabled) setFocusedDate(quarterStart);
+            }}
+            className={buttonClass}
+            aria-label={`Select quarter ${quarterLabel}, ${formatDate(
+              quarterStart,
+              "MMMM YYYY",
+              false,
+              formatOptions
+            )} to ${formatDate(quarterEnd, "MMMM YYYY", false, formatOptions)}${
+              isSelected ? ", selected" : ""
+            }${isFocused ? ", focused" : ""}${
+              isQuarterDisabled ? " (disabled)" : ""
+            }`}
+            role="gridcell"
+            tabIndex={-1}
+            disabled={isQuarterDisabled}
+          >
+            <span className={styles.quarterLabel}>{quarterLabel}</span>
+            <span className={styles.monthSpan}>
+              {firstMonth} – {lastMonth}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QuarterView;
@@ -1,6 +1,12 @@
 import React from "react";
-import { CalendarView, SelectedDateType } from "./../lib/types/TChronoPick";
 import {
+  CalendarView,
+  ChronoPickMode,
+  DateRange,
+  SelectedDateType,
+} from "./../lib/types/TChronoPick";
+import {
+  formatDate,
   generateDateId,
   isAfterDay,
   isBeforeDay,
@@ -15,9 +21,14 @@ interface YearViewProps {
   focusedDate: CoreReturnType["focusedDate"] | null;
   handleYearSelect: CoreReturnType["handleYearSelect"];
   setFocusedDate: CoreReturnType["setFocusedDate"];
+  tempRangeEnd: CoreReturnType["tempRangeEnd"];
+  setTempRangeEnd: CoreReturnType["setTempRangeEnd"];
+  today: CoreReturnType["today"];
   value: SelectedDateType;
+  mode: ChronoPickMode;
   minDate?: Date;
   maxDate?: Date;
+  locale?: string;
 }
 
 const YearView: React.FC<YearViewProps> = ({
@@ -25,10 +36,21 @@ const YearView: React.FC<YearViewProps> = ({
   focusedDate,
   handleYearSelect,
   setFocusedDate,
+  tempRangeEnd,
+  setTempRangeEnd,
+  today,
   value,
+  mode,
   minDate,
   maxDate,
+  locale,
 }) => {
+  /** Whether years are picked as a range (YearRange mode). */
+  const isYearRange = mode === ChronoPickMode.YearRange;
+  const range = (
+    isYearRange && typeof value === "object" && value ? value : {}
+  ) as Partial<DateRange>;
+
   return (
     <div className={styles.gridContainer}>
       {yearsToRender.map((year) => {
@@ -40,8 +62,21 @@ const YearView: React.FC<YearViewProps> = ({
         const isFocused =
           focusedDate && yearDate.getFullYear() === focusedDate.getFullYear();
         const id = generateDateId(yearDate, CalendarView.Years);
-        const isCurrentYearSelected =
-          value instanceof Date && value.getFullYear() === year;
+        const isCurrentYearSelected = isYearRange
+          ? range.from?.getFullYear() === year ||
+            range.to?.getFullYear() === year
+          : value instanceof Date && value.getFullYear() === year;
+
+        // YearRange: years strictly between `from` and `to`, or between `from` and the hovered year
+        const rangeEnd = range.to ?? (range.from && tempRangeEnd);
+        const [rangeLow, rangeHigh] =
+          range.from && rangeEnd
+            ? [range.from.getFullYear(), rangeEnd.getFullYear()].sort(
+                (a, b) => a - b
+              )
+            : [];
+        const isBetweenRange =
+          rangeLow !== undefined && year > rangeLow && year < rangeHigh;
 
         const firstDayOfYear = new Date(year, 0, 1);
         const lastDayOfYear = new Date(year, 11, 31);
@@ -50,7 +85,8 @@ const YearView: React.FC<YearViewProps> = ({
           (minDate && isBeforeDay(lastDayOfYear, minDate)) ||
           (maxDate && isAfterDay(firstDayOfYear, maxDate));
 
-        const isCurrentSystemYear = year === new Date().getFullYear();
+        const isCurrentSystemYear = year === today.getFullYear();
+        const yearLabel = formatDate(yearDate, "YYYY", false, { locale });
 
         const buttonClass = [
           styles.yearButton,
@@ -61,6 +97,9 @@ const YearView: React.FC<YearViewProps> = ({
             !isCurrentYearSelected &&
             styles.currentYear,
           isCurrentYearSelected && !isYearDisabled && styles.selected,
+          isBetweenRange &&
+            !isCurrentYearSelected &&
+            (range.to ? styles.inRange : styles.hoverRange),
           isYearDisabled && styles.disabled,
         ]
           .filter(Boolean)
@@ -76,16 +115,20 @@ const YearView: React.FC<YearViewProps> = ({
             }}
             onMouseEnter={() => {
               if (!isYearDisabled) setFocusedDate(yearDate);
+              if (isYearRange && !isYearDisabled) setTempRangeEnd(yearDate); // For range hover visualization
             }}
+            onMouseLeave={() => isYearRange && setTempRangeEnd(null)}
             className={buttonClass}
-            aria-label={`Select year ${year}${isFocused ? ", focused" : ""}${
+            aria-label={`Select year ${yearLabel}${
+              isCurrentYearSelected ? ", selected" : ""
+            }${isFocused ? ", focused" : ""}${
               isYearDisabled ? " (disabled)" : ""
             }`}
             role="gridcell"
             tabIndex={-1}
             disabled={isYearDisabled}
           >
-            {year}
+            {yearLabel}
           </button>
         );
       })}
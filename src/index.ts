@@ -1,14 +1,53 @@
 export { default as ChronoPick } from "./components/ChronoPick";
+export { default as ChronoTimePick } from "./components/ChronoTimePick";
+
+// Headless hook for rendering custom markup with ChronoPick's behavior
+export { useChronoPick } from "./components/lib/hooks/useChronoPick";
 
 // Export core types for users of the library
 export type {
   ChronoPickProps,
   SelectedDateType,
   DateRange,
-} from "./lib/types/TChronoPick";
+  WeekDay,
+  HourCycle,
+  RangeCrossesDisabled,
+  TimeValue,
+  CalendarWeek,
+  CalendarMonth,
+  ChronoPickPreset,
+  ChronoPickPresetContext,
+  ChronoPickDayMeta,
+  ChronoPickValidationError,
+  ChronoPickValidationErrorCode,
+  ChronoTimePickProps,
+  TimeInputValue,
+  TimeRange,
+  SelectedTimeType,
+} from "./components/lib/types/TChronoPick";
+export type { TimeZoneDisambiguation } from "./components/lib/utils/timeZoneUtils";
+export type { PopoverPlacement } from "./components/lib/utils/positioning";
+export type { ChronoPickCoreState } from "./components/lib/hooks/useChronoPickCore";
 
 export {
   ChronoPickMode,
   CalendarView,
   DayState,
-} from "./lib/types/TChronoPick";
+  WeekNumbering,
+} from "./components/lib/types/TChronoPick";
+
+// Built-in presets for the `presets` prop
+export {
+  todayPreset,
+  yesterdayPreset,
+  lastDaysPreset,
+  lastWeeksPreset,
+  lastMonthsPreset,
+  thisWeekPreset,
+  lastWeekPreset,
+  thisMonthPreset,
+  lastMonthPreset,
+  thisQuarterPreset,
+  thisYearPreset,
+  DEFAULT_PRESETS,
+} from "./components/lib/utils/presets";